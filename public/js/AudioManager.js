@@ -1,10 +1,30 @@
+// How often to check for new segments while the server is still encoding
+const MANIFEST_POLL_MS = 2000;
+// Lead time for handing playback over to a node with newly decoded audio
+const HANDOFF_DELAY = 0.1;
+// Variant selection: assumed bandwidth before anything was measured, rough
+// FLAC bitrate, and how much faster than real time segments must download
+const DEFAULT_BANDWIDTH_KBPS = 2000;
+const LOSSLESS_KBPS = 700;
+const BANDWIDTH_HEADROOM = 3;
+
 export class AudioManager {
   constructor() {
     this.audioContext = null;
     this.audioBuffer = null;
     this.sourceNode = null;
-    this.gainNode = null;
-    this.startTime = 0;
+    this.gainNode = null; // Channel volume times the device's volume trim
+    this.volume = 1.0;
+    this.volumeTrim = 1.0;
+    this.trackGainNode = null; // Loudness normalization of the current track
+    this.stream = null; // Segment stream currently being loaded
+    this.preloaded = null; // Stream of the next queued track, loaded ahead of time
+    this.finishingNode = null; // Source of the previous track, left to play out its end
+    this.bandwidthKbps = null; // Measured from segment downloads
+    this.pendingTrackGain = null;
+    this.startTime = 0; // Context time position 0 would have played at the current rate
+    this.sourceStartTime = 0; // Context time the current source node starts at
+    this.playbackRate = 1; // Nudged by the server to correct drift
     this.pauseTime = 0;
     this.isPlaying = false;
     this.duration = 0;
@@ -62,8 +82,11 @@ export class AudioManager {
     try {
       this.audioContext = new (window.AudioContext || window.webkitAudioContext)();
       this.gainNode = this.audioContext.createGain();
-      this.gainNode.gain.value = 1.0; // Ensure full volume
+      this.gainNode.gain.value = this.volume * this.volumeTrim;
       this.gainNode.connect(this.audioContext.destination);
+      this.trackGainNode = this.audioContext.createGain();
+      this.trackGainNode.gain.value = this.pendingTrackGain ?? 1.0;
+      this.trackGainNode.connect(this.gainNode);
       this.log(`AudioContext created, state: ${this.audioContext.state}, sample rate: ${this.audioContext.sampleRate}`);
       this.monitorContextState();
     } catch (e) {
@@ -95,6 +118,261 @@ export class AudioManager {
     console.log('[AudioManager] Audio loaded, duration:', this.duration);
   }
 
+  // Stream a channel from its segment manifests. Resolves once the first segment
+  // is decoded; the rest are fetched as the server encodes them and spliced
+  // into the buffer, so playback can start before the track is finished.
+  // variants are the channel's encodings in increasing quality; the best one
+  // the device decodes and the measured bandwidth sustains is used.
+  async loadStream(variants) {
+    if (!this.audioContext) await this.init();
+
+    // If suspended, need user gesture first - don't even try to resume
+    if (this.audioContext.state === 'suspended') {
+      console.log('[AudioManager] Suspended - need user gesture');
+      throw new Error('Audio blocked - click to enable');
+    }
+
+    // Stop filling the buffer of the previous track, and don't loop it while this one loads
+    if (this.stream) this.stream.cancelled = true;
+    this.finishTrack();
+    const stream = this.createStream(variants);
+    this.stream = stream;
+    this.audioBuffer = null;
+
+    await this.openStream(stream);
+    this.useStream(stream);
+    console.log('[AudioManager] First segment loaded, duration:', this.duration);
+  }
+
+  // Start streaming the next queued track alongside the current one, so it
+  // can take over the moment the current one ends. Best effort: without it
+  // the track is loaded when it becomes current.
+  async preloadStream(variants) {
+    if (!this.audioContext || this.audioContext.state === 'suspended') return;
+    if (this.preloaded && this.isStreamOf(this.preloaded, variants)) return;
+
+    if (this.preloaded) this.preloaded.cancelled = true;
+    const stream = this.createStream(variants);
+    this.preloaded = stream;
+    await this.openStream(stream);
+    this.log(`Preloaded next track (${stream.variants[stream.level].variant ?? 'audio'})`);
+  }
+
+  // Make the preloaded track current if it's this one. The previous track
+  // plays out its end until the next play starts this one.
+  usePreloaded(variants) {
+    const stream = this.preloaded;
+    if (!stream?.buffer || !this.isStreamOf(stream, variants)) return false;
+
+    this.preloaded = null;
+    if (this.stream) this.stream.cancelled = true;
+    this.finishTrack();
+    this.useStream(stream);
+    return true;
+  }
+
+  createStream(variants) {
+    const playable = variants.filter((v) => !v.mimeType || this.canDecode(v.mimeType));
+    const stream = { cancelled: false, nextSegment: 0, variants: playable, level: 0, buffer: null, duration: 0 };
+    stream.level = this.pickVariantLevel(playable);
+    return stream;
+  }
+
+  isStreamOf(stream, variants) {
+    const urls = new Set(stream.variants.map((v) => v.manifestUrl));
+    return variants.some((v) => urls.has(v.manifestUrl));
+  }
+
+  // Decode a stream's first segment, then keep fetching the rest in the background
+  async openStream(stream) {
+    const manifestUrl = () => stream.variants[stream.level].manifestUrl;
+    this.log(`Streaming ${stream.variants[stream.level].variant ?? 'audio'}: ${manifestUrl()}`);
+    let manifest = await this.fetchManifest(manifestUrl());
+    while (manifest.segments.length === 0 && !manifest.complete) {
+      await new Promise((resolve) => setTimeout(resolve, MANIFEST_POLL_MS));
+      if (stream.cancelled) throw new Error('Superseded by a newer track');
+      manifest = await this.fetchManifest(manifestUrl());
+    }
+    if (manifest.segments.length === 0) {
+      throw new Error('No audio available');
+    }
+
+    const first = await this.fetchSegment(manifest.segments[0]);
+    if (stream.cancelled) throw new Error('Superseded by a newer track');
+    stream.duration = manifest.duration || manifest.encodedSeconds;
+    stream.buffer = this.audioContext.createBuffer(
+      first.numberOfChannels,
+      Math.ceil(Math.max(stream.duration, first.duration) * this.audioContext.sampleRate),
+      this.audioContext.sampleRate
+    );
+    this.writeSegment(stream, manifest.segments[0], first);
+    stream.nextSegment = 1;
+
+    this.continueStream(stream, manifestUrl, manifest);
+  }
+
+  useStream(stream) {
+    this.stream = stream;
+    this.audioBuffer = stream.buffer;
+    this.duration = stream.duration;
+    this.pauseTime = 0;
+  }
+
+  // Let the playing source run to the end of its buffer instead of looping,
+  // and stop treating it as playing; the next play takes over from it
+  finishTrack() {
+    if (this.isPlaying && this.sourceNode) {
+      this.sourceNode.onended = null;
+      this.sourceNode.loop = false;
+      this.finishingNode = this.sourceNode;
+    }
+    this.sourceNode = null;
+    this.isPlaying = false;
+    this.pauseTime = 0;
+  }
+
+  // Cut off a finishing track, at a context time or right away
+  stopFinishing(when = 0) {
+    if (!this.finishingNode) return;
+    try {
+      this.finishingNode.stop(when);
+    } catch {
+      // Already stopped
+    }
+    this.finishingNode = null;
+  }
+
+  // Keep appending segments until the server reports the track complete.
+  // All variants are cut at the same points, so a slow or fast network can
+  // move to another variant from the next segment on.
+  async continueStream(stream, manifestUrl, manifest) {
+    while (!stream.cancelled) {
+      try {
+        let appended = 0;
+        while (stream.nextSegment < manifest.segments.length) {
+          const segment = manifest.segments[stream.nextSegment];
+          const decoded = await this.fetchSegment(segment);
+          if (stream.cancelled) return;
+          this.writeSegment(stream, segment, decoded);
+          stream.nextSegment++;
+          appended++;
+
+          const level = this.pickVariantLevel(stream.variants);
+          if (level !== stream.level) {
+            this.log(`Switching to ${stream.variants[level].variant} (${Math.round(this.bandwidthKbps)} kbps measured)`);
+            stream.level = level;
+            manifest = await this.fetchManifest(manifestUrl());
+          }
+        }
+        if (appended > 0 && stream === this.stream) this.refreshSource();
+
+        if (manifest.complete && stream.nextSegment >= manifest.segments.length) {
+          this.log(`Stream complete (${stream.nextSegment} segments, ${manifest.encodedSeconds.toFixed(1)}s)`);
+          return;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, MANIFEST_POLL_MS));
+        if (stream.cancelled) return;
+        manifest = await this.fetchManifest(manifestUrl());
+      } catch (err) {
+        // Try again on the next poll
+        this.log(`Stream update failed: ${err.message}`, 'warn');
+        await new Promise((resolve) => setTimeout(resolve, MANIFEST_POLL_MS));
+      }
+    }
+  }
+
+  canDecode(mimeType) {
+    return new Audio().canPlayType(mimeType) !== '';
+  }
+
+  // Highest quality variant whose bitrate fits the bandwidth with headroom.
+  // Lossless is only used on desktops, where it's worth the data.
+  pickVariantLevel(variants) {
+    const bandwidth = this.bandwidthKbps
+      ?? (navigator.connection?.downlink ? navigator.connection.downlink * 1000 : DEFAULT_BANDWIDTH_KBPS);
+    const isMobile = /Mobi|Android|iPhone|iPad/i.test(navigator.userAgent);
+
+    let level = 0;
+    variants.forEach((variant, i) => {
+      if (variant.bitrate === null && isMobile) return;
+      const bitrate = variant.bitrate ?? LOSSLESS_KBPS;
+      if (bitrate * BANDWIDTH_HEADROOM <= bandwidth) level = i;
+    });
+    return level;
+  }
+
+  async fetchManifest(manifestUrl) {
+    const response = await fetch(manifestUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch manifest: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async fetchSegment(segment) {
+    const started = performance.now();
+    const response = await fetch(segment.url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch segment: ${response.status}`);
+    }
+    const arrayBuffer = await response.arrayBuffer();
+
+    // Smoothed download rate, used to pick variants
+    const elapsed = Math.max(1, performance.now() - started);
+    const kbps = (arrayBuffer.byteLength * 8) / elapsed;
+    this.bandwidthKbps = this.bandwidthKbps === null ? kbps : this.bandwidthKbps * 0.7 + kbps * 0.3;
+
+    return this.audioContext.decodeAudioData(arrayBuffer);
+  }
+
+  // Copy a decoded segment into the stream's buffer at its position,
+  // growing the buffer if the track's duration wasn't known up front
+  writeSegment(stream, segment, decoded) {
+    const { sampleRate } = this.audioContext;
+    const offset = Math.round(segment.start * sampleRate);
+    const length = offset + decoded.length;
+
+    if (length > stream.buffer.length) {
+      const grown = this.audioContext.createBuffer(stream.buffer.numberOfChannels, length, sampleRate);
+      for (let c = 0; c < grown.numberOfChannels; c++) {
+        grown.copyToChannel(stream.buffer.getChannelData(c), c);
+      }
+      stream.buffer = grown;
+      stream.duration = Math.max(stream.duration, grown.duration);
+      if (stream === this.stream) {
+        this.audioBuffer = grown;
+        this.duration = stream.duration;
+      }
+    }
+
+    for (let c = 0; c < stream.buffer.numberOfChannels; c++) {
+      const source = decoded.getChannelData(Math.min(c, decoded.numberOfChannels - 1));
+      stream.buffer.copyToChannel(source, c, offset);
+    }
+  }
+
+  // Source nodes keep the buffer contents they were started with, so hand
+  // playback over to a new node to make newly decoded audio audible
+  refreshSource() {
+    if (!this.isPlaying || !this.sourceNode) return;
+
+    const when = Math.max(this.audioContext.currentTime + HANDOFF_DELAY, this.sourceStartTime);
+    const offset = ((when - this.startTime) * this.playbackRate) % this.audioBuffer.duration;
+
+    const previous = this.sourceNode;
+    previous.onended = null;
+    previous.stop(when);
+
+    this.sourceNode = this.audioContext.createBufferSource();
+    this.sourceNode.buffer = this.audioBuffer;
+    this.sourceNode.loop = true; // Enable repeat mode
+    this.sourceNode.playbackRate.value = this.playbackRate;
+    this.sourceNode.connect(this.trackGainNode);
+    this.sourceNode.start(when, offset);
+    this.sourceStartTime = when;
+  }
+
   async resumeContext() {
     if (this.audioContext && this.audioContext.state === 'suspended') {
       await this.audioContext.resume();
@@ -139,13 +417,17 @@ export class AudioManager {
       this.audioContext.resume();
     }
 
+    this.stopFinishing();
+
     // Create new source node (they're one-time-use)
     this.sourceNode = this.audioContext.createBufferSource();
     this.sourceNode.buffer = this.audioBuffer;
     this.sourceNode.loop = true; // Enable repeat mode
-    this.sourceNode.connect(this.gainNode);
+    this.sourceNode.connect(this.trackGainNode);
 
     this.startTime = this.audioContext.currentTime - fromTime;
+    this.sourceStartTime = this.audioContext.currentTime;
+    this.playbackRate = 1;
     this.sourceNode.start(0, fromTime);
     this.isPlaying = true;
     console.log('[AudioManager] Playing from:', fromTime);
@@ -165,30 +447,37 @@ export class AudioManager {
       this.audioContext.resume();
     }
 
-    // Stop current playback if any
+    // Schedule start at exact time. If the time has already passed, start
+    // right away from where playback should be by now.
+    const now = this.audioContext.currentTime;
+    const delay = (scheduledTime - Date.now()) / 1000;
+    const when = now + Math.max(0, delay);
+    if (delay < 0) fromTime -= delay;
+    fromTime %= this.audioBuffer.duration;
+
+    // Keep the current playback going until the new one takes over
     if (this.sourceNode && this.isPlaying) {
       this.sourceNode.onended = null;
-      this.sourceNode.stop();
+      this.sourceNode.stop(when);
     }
+    this.stopFinishing(when);
 
     // Create new source node
     this.sourceNode = this.audioContext.createBufferSource();
     this.sourceNode.buffer = this.audioBuffer;
     this.sourceNode.loop = true; // Enable repeat mode
-    this.sourceNode.connect(this.gainNode);
-
-    // Schedule start at exact time
-    const now = this.audioContext.currentTime;
-    const delay = Math.max(0, (scheduledTime - Date.now()) / 1000);
-    const when = now + delay;
+    this.sourceNode.connect(this.trackGainNode);
 
     this.startTime = when - fromTime;
+    this.sourceStartTime = when;
+    this.playbackRate = 1;
     this.sourceNode.start(when, fromTime);
     this.isPlaying = true;
     console.log('[AudioManager] Scheduled play at:', when, 'from:', fromTime);
   }
 
   pause() {
+    this.stopFinishing();
     if (!this.sourceNode || !this.isPlaying) return this.pauseTime;
 
     this.sourceNode.onended = null;
@@ -201,7 +490,26 @@ export class AudioManager {
 
   getCurrentTime() {
     if (!this.isPlaying) return this.pauseTime;
-    return this.audioContext.currentTime - this.startTime;
+    return (this.audioContext.currentTime - this.startTime) * this.playbackRate;
+  }
+
+  // Position within the looping buffer, for drift reports
+  getPlaybackPosition() {
+    const duration = this.audioBuffer?.duration ?? 0;
+    const position = this.getCurrentTime();
+    return duration > 0 ? position % duration : position;
+  }
+
+  // Play slightly faster or slower to close a small drift without a jump
+  setPlaybackRate(rate) {
+    if (!this.isPlaying || !this.sourceNode) return;
+    const now = this.audioContext.currentTime;
+    if (now < this.sourceStartTime) return; // Not started yet
+
+    const position = this.getCurrentTime();
+    this.playbackRate = rate;
+    this.startTime = now - position / rate;
+    this.sourceNode.playbackRate.setValueAtTime(rate, now);
   }
 
   seekTo(time) {
@@ -218,8 +526,36 @@ export class AudioManager {
   }
 
   setVolume(value) {
+    this.volume = Math.max(0, Math.min(1, value));
+    this.applyVolume();
+  }
+
+  // Per-device calibration from the server, in dB
+  setVolumeTrim(volumeDb) {
+    this.volumeTrim = Math.pow(10, volumeDb / 20);
+    this.applyVolume();
+  }
+
+  applyVolume() {
     if (this.gainNode) {
-      this.gainNode.gain.value = Math.max(0, Math.min(1, value));
+      this.gainNode.gain.value = this.volume * this.volumeTrim;
+    }
+  }
+
+  // Normalization gain from the server, in dB. Ramped by default so a late
+  // loudness measurement doesn't jump the level mid-track.
+  setTrackGain(gainDb, ramp = true) {
+    const gain = Math.pow(10, gainDb / 20);
+    if (!this.trackGainNode) {
+      this.pendingTrackGain = gain; // Applied once the context exists
+      return;
+    }
+    const now = this.audioContext.currentTime;
+    this.trackGainNode.gain.cancelScheduledValues(now);
+    if (ramp) {
+      this.trackGainNode.gain.setTargetAtTime(gain, now, 0.5);
+    } else {
+      this.trackGainNode.gain.setValueAtTime(gain, now);
     }
   }
 
@@ -230,4 +566,9 @@ export class AudioManager {
   isReady() {
     return this.audioBuffer !== null;
   }
+
+  // Whether these variants are the track already loaded, e.g. after a reconnect
+  hasLoaded(variants) {
+    return !!this.audioBuffer && !!this.stream && this.isStreamOf(this.stream, variants);
+  }
 }
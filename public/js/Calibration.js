@@ -0,0 +1,144 @@
+// Acoustic calibration: every device plays the same short chirp in its own time
+// slot, one device records them, and the offset of each chirp from when it was
+// scheduled is that device's output delay (plus the recorder's, common to all).
+
+const CHIRP_SECONDS = 0.05;
+const CHIRP_START_HZ = 1000;
+const CHIRP_END_HZ = 6000;
+const CHIRP_LEVEL = 0.5;
+// Part of each slot searched for the chirp, relative to when it was scheduled
+const SEARCH_BEFORE_MS = 100;
+const SEARCH_AFTER_MS = 800;
+// Correlation peak must stand out this much from the rest of the window
+const MIN_PEAK_RATIO = 6;
+const RECORD_BUFFER_SIZE = 4096;
+
+// Linear sweep with a Hann window, so it has a sharp correlation peak
+export function createChirp(sampleRate) {
+  const length = Math.round(CHIRP_SECONDS * sampleRate);
+  const samples = new Float32Array(length);
+  const sweepRate = (CHIRP_END_HZ - CHIRP_START_HZ) / CHIRP_SECONDS;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const phase = 2 * Math.PI * (CHIRP_START_HZ * t + (sweepRate * t * t) / 2);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+    samples[i] = Math.sin(phase) * window;
+  }
+  return samples;
+}
+
+// Play the chirp at a local wall-clock time
+export function playChirpAt(audioContext, localTime) {
+  const chirp = createChirp(audioContext.sampleRate);
+  const buffer = audioContext.createBuffer(1, chirp.length, audioContext.sampleRate);
+  buffer.copyToChannel(chirp, 0);
+
+  const gain = audioContext.createGain();
+  gain.gain.value = CHIRP_LEVEL;
+  gain.connect(audioContext.destination);
+  const source = audioContext.createBufferSource();
+  source.buffer = buffer;
+  source.connect(gain);
+  source.onended = () => gain.disconnect();
+
+  const delay = Math.max(0, (localTime - Date.now()) / 1000);
+  source.start(audioContext.currentTime + delay);
+}
+
+// Records the microphone and finds each device's chirp in it
+export class CalibrationRecorder {
+  constructor(audioContext) {
+    this.audioContext = audioContext;
+    this.stream = null;
+    this.source = null;
+    this.processor = null;
+    this.chunks = [];
+    this.startTime = null; // Local wall-clock time of the first recorded sample
+  }
+
+  // Ask for the microphone; must be called from a user gesture on iOS
+  async open() {
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+  }
+
+  start() {
+    this.source = this.audioContext.createMediaStreamSource(this.stream);
+    this.processor = this.audioContext.createScriptProcessor(RECORD_BUFFER_SIZE, 1, 1);
+    this.processor.onaudioprocess = (event) => {
+      const input = event.inputBuffer.getChannelData(0);
+      if (this.startTime === null) {
+        // This buffer ended just now
+        this.startTime = Date.now() - (input.length / this.audioContext.sampleRate) * 1000;
+      }
+      this.chunks.push(new Float32Array(input));
+    };
+    this.source.connect(this.processor);
+    // Script processors only run while connected to the output
+    this.processor.connect(this.audioContext.destination);
+  }
+
+  stop() {
+    this.processor?.disconnect();
+    this.source?.disconnect();
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.processor = null;
+    this.source = null;
+    this.stream = null;
+  }
+
+  // Offset in ms of each chirp from its scheduled local time, null if not found
+  analyze(slots) {
+    const sampleRate = this.audioContext.sampleRate;
+    const recording = concat(this.chunks);
+    const chirp = createChirp(sampleRate);
+
+    return slots.map(({ clientId, localTime }) => {
+      if (this.startTime === null) return { clientId, offsetMs: null };
+      const searchStart = localTime - SEARCH_BEFORE_MS;
+      const from = Math.max(0, Math.round(((searchStart - this.startTime) / 1000) * sampleRate));
+      const to = Math.min(
+        recording.length - chirp.length,
+        Math.round(((localTime + SEARCH_AFTER_MS - this.startTime) / 1000) * sampleRate)
+      );
+      const peak = findChirp(recording, chirp, from, to);
+      if (!peak) return { clientId, offsetMs: null };
+
+      const arrival = this.startTime + (peak / sampleRate) * 1000;
+      return { clientId, offsetMs: arrival - localTime };
+    });
+  }
+}
+
+// Sample index where the chirp correlates best, or null if there's no clear peak
+function findChirp(recording, chirp, from, to) {
+  if (to <= from) return null;
+  let best = 0;
+  let bestIndex = from;
+  let sum = 0;
+  for (let i = from; i < to; i++) {
+    let correlation = 0;
+    for (let j = 0; j < chirp.length; j++) {
+      correlation += recording[i + j] * chirp[j];
+    }
+    correlation = Math.abs(correlation);
+    sum += correlation;
+    if (correlation > best) {
+      best = correlation;
+      bestIndex = i;
+    }
+  }
+  const mean = sum / (to - from);
+  return mean > 0 && best / mean >= MIN_PEAK_RATIO ? bestIndex : null;
+}
+
+function concat(chunks) {
+  const result = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
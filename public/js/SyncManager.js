@@ -1,77 +1,60 @@
+// How often the playback position is reported for drift correction
+const POSITION_REPORT_MS = 2000;
+// Quick pings after joining so the server has a clock estimate before the first play
+const INITIAL_PINGS = 6;
+const INITIAL_PING_MS = 200;
+const PING_MS = 5000;
+
+// The server estimates this client's clock offset from NTP-style ping/pong
+// exchanges and sends scheduled times already in our clock, so all this
+// side does is time the exchanges and report them back.
 export class SyncManager {
   constructor() {
-    this.clockOffset = 0;
-    this.latencySamples = [];
+    this.pendingSample = null; // Last completed exchange, sent with the next ping
     this.pingInterval = null;
-    this.onPong = null;
-  }
-
-  handlePong(serverTimestamp, clientTimestamp) {
-    const now = Date.now();
-    const rtt = now - clientTimestamp;
-    const latency = rtt / 2;
-    const offset = serverTimestamp - clientTimestamp - latency;
-
-    this.latencySamples.push({ latency, offset });
-
-    // Keep last 5 samples
-    if (this.latencySamples.length > 5) {
-      this.latencySamples.shift();
-    }
-
-    // Use median offset for stability
-    const sorted = [...this.latencySamples].sort((a, b) => a.offset - b.offset);
-    const median = sorted[Math.floor(sorted.length / 2)];
-    this.clockOffset = median.offset;
-
-    if (this.onPong) {
-      this.onPong({ latency, offset: this.clockOffset });
-    }
+    this.reportInterval = null;
   }
 
-  serverTimeToLocal(serverTime) {
-    return serverTime - this.clockOffset;
-  }
-
-  localTimeToServer(localTime) {
-    return localTime + this.clockOffset;
-  }
-
-  scheduleAction(serverTimestamp, action) {
-    const localTargetTime = this.serverTimeToLocal(serverTimestamp);
-    const delay = localTargetTime - Date.now();
-
-    if (delay > 0) {
-      return setTimeout(action, delay);
-    } else {
-      // Already past target time, execute immediately
-      action();
-      return null;
-    }
-  }
-
-  getEstimatedLatency() {
-    if (this.latencySamples.length === 0) return 0;
-    const sum = this.latencySamples.reduce((acc, s) => acc + s.latency, 0);
-    return sum / this.latencySamples.length;
+  handlePong(msg) {
+    this.pendingSample = {
+      clientSent: msg.clientTimestamp,
+      serverReceived: msg.serverReceiveTimestamp,
+      serverSent: msg.serverTimestamp,
+      clientReceived: Date.now(),
+    };
   }
 
   startPinging(sendPing) {
+    this.stopPinging();
+    const ping = () => {
+      sendPing(Date.now(), this.pendingSample);
+      this.pendingSample = null;
+    };
+
     // Send initial pings quickly to establish sync
     let count = 0;
     const initialPing = () => {
-      sendPing(Date.now());
+      ping();
       count++;
-      if (count < 3) {
-        setTimeout(initialPing, 200);
+      if (count < INITIAL_PINGS) {
+        setTimeout(initialPing, INITIAL_PING_MS);
       }
     };
     initialPing();
 
     // Then ping periodically
-    this.pingInterval = setInterval(() => {
-      sendPing(Date.now());
-    }, 5000);
+    this.pingInterval = setInterval(ping, PING_MS);
+  }
+
+  // getPosition returns the playback position, or null when not playing
+  startPositionReports(getPosition, sendReport) {
+    clearInterval(this.reportInterval);
+    this.reportInterval = setInterval(() => {
+      const position = getPosition();
+      if (position !== null) {
+        sendReport(position, Date.now());
+      }
+    }, POSITION_REPORT_MS);
   }
 
   stopPinging() {
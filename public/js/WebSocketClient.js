@@ -1,3 +1,10 @@
+// Identifies this device across reconnects and sessions, so its calibration is kept
+const DEVICE_TOKEN_KEY = 'stereo-play-device';
+// Followed by the session id: the key the server gave this device as that session's host
+const HOST_KEY_PREFIX = 'stereo-play-host-key:';
+// Version of the server protocol this client speaks
+const PROTOCOL_VERSION = 1;
+
 export class WebSocketClient {
   constructor() {
     this.ws = null;
@@ -5,6 +12,9 @@ export class WebSocketClient {
     this.reconnectAttempts = 0;
     this.maxReconnectAttempts = 5;
     this.sessionId = null;
+    this.deviceToken = getDeviceToken();
+    this.resumeToken = null; // From session_joined, to come back as the same client
+    this.password = null; // For password-protected sessions, asked for on the first refused join
   }
 
   connect(sessionId) {
@@ -17,7 +27,7 @@ export class WebSocketClient {
     this.ws.onopen = () => {
       console.log('[WebSocket] Connected');
       this.reconnectAttempts = 0;
-      this.send({ type: 'join_session', sessionId });
+      this.join();
     };
 
     this.ws.onmessage = (event) => {
@@ -39,6 +49,22 @@ export class WebSocketClient {
     };
   }
 
+  join() {
+    this.send({
+      type: 'join_session',
+      protocolVersion: PROTOCOL_VERSION,
+      sessionId: this.sessionId,
+      deviceToken: this.deviceToken,
+      ...(this.resumeToken && { resumeToken: this.resumeToken }),
+      ...(this.password && { password: this.password }),
+      ...(this.getHostKey() && { hostKey: this.getHostKey() }),
+    });
+  }
+
+  getHostKey() {
+    return localStorage.getItem(HOST_KEY_PREFIX + this.sessionId);
+  }
+
   tryReconnect() {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.log('[WebSocket] Max reconnect attempts reached');
@@ -60,6 +86,12 @@ export class WebSocketClient {
   }
 
   handleMessage(message) {
+    if (message.type === 'session_joined') {
+      this.resumeToken = message.resumeToken;
+    }
+    if (message.hostKey && (message.type === 'session_joined' || message.type === 'role_change')) {
+      localStorage.setItem(HOST_KEY_PREFIX + this.sessionId, message.hostKey);
+    }
     const handler = this.handlers[message.type];
     if (handler) {
       handler(message);
@@ -82,23 +114,105 @@ export class WebSocketClient {
     this.send({ type: 'submit_link', url });
   }
 
+  cancelProcessing() {
+    this.send({ type: 'cancel_processing' });
+  }
+
+  enqueueTrack(url) {
+    this.send({ type: 'enqueue_track', url });
+  }
+
+  removeTrack(itemId) {
+    this.send({ type: 'remove_track', itemId });
+  }
+
+  moveTrack(itemId, toIndex) {
+    this.send({ type: 'move_track', itemId, toIndex });
+  }
+
+  setLayout(layout) {
+    this.send({ type: 'set_layout', layout });
+  }
+
+  setNormalization(enabled) {
+    this.send({ type: 'set_normalization', enabled });
+  }
+
+  setReadyBarrier(enabled) {
+    this.send({ type: 'set_ready_barrier', enabled });
+  }
+
+  setAudioSettings(settings) {
+    this.send({ type: 'audio_settings', settings });
+  }
+
+  setChannel(channel, clientId) {
+    this.send({ type: 'set_channel', channel, clientId });
+  }
+
+  setDeviceTrim(clientId, trim) {
+    this.send({ type: 'set_device_trim', clientId, ...trim });
+  }
+
+  startCalibration() {
+    this.send({ type: 'start_calibration' });
+  }
+
+  sendCalibrationResult(calibrationId, offsets) {
+    this.send({ type: 'calibration_result', calibrationId, offsets });
+  }
+
+  // Host only
+  setRole(clientId, role) {
+    this.send({ type: 'set_role', clientId, role });
+  }
+
+  setGuestRole(role) {
+    this.send({ type: 'set_guest_role', role });
+  }
+
+  // null removes the password
+  setSessionPassword(password) {
+    this.send({ type: 'set_session_password', password });
+  }
+
+  swapChannels(channelA, channelB) {
+    this.send({ type: 'swap_channels', channelA, channelB });
+  }
+
   sendReady() {
     this.send({ type: 'ready' });
   }
 
-  requestPlay() {
-    this.send({ type: 'play_request' });
+  // version is the playback state version the request is based on
+  requestPlay(version) {
+    this.send({ type: 'play_request', version });
   }
 
-  requestPause() {
-    this.send({ type: 'pause_request' });
+  requestPause(version) {
+    this.send({ type: 'pause_request', version });
   }
 
-  requestSeek(targetTime) {
-    this.send({ type: 'seek_request', targetTime });
+  requestSeek(targetTime, version) {
+    this.send({ type: 'seek_request', targetTime, version });
   }
 
-  ping(clientTimestamp) {
-    this.send({ type: 'ping', clientTimestamp });
+  reportPosition(position, clientTimestamp) {
+    this.send({ type: 'position_report', position, clientTimestamp });
+  }
+
+  // sample is the previous exchange, for the server's clock estimate
+  ping(clientTimestamp, sample) {
+    this.send({ type: 'ping', clientTimestamp, ...(sample && { sample }) });
+  }
+}
+
+function getDeviceToken() {
+  let token = localStorage.getItem(DEVICE_TOKEN_KEY);
+  if (!token) {
+    const bytes = crypto.getRandomValues(new Uint8Array(12));
+    token = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(DEVICE_TOKEN_KEY, token);
   }
+  return token;
 }
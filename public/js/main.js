@@ -2,6 +2,7 @@ import { AudioManager } from './AudioManager.js';
 import { SyncManager } from './SyncManager.js';
 import { WebSocketClient } from './WebSocketClient.js';
 import { StatusMachine } from './StatusMachine.js';
+import { CalibrationRecorder, playChirpAt } from './Calibration.js';
 
 // State
 let audioManager = null;
@@ -10,21 +11,50 @@ let wsClient = null;
 let statusMachine = null;
 let myChannel = null;
 let myClientId = null;
+let myRole = null; // host, controller or listener
 let currentTitle = '';
-let pendingAudioUrl = null;
+let pendingVariants = null;
 let serverDuration = 0; // Duration from server (full track length)
+let audioSettings = null; // Session DSP settings
+let clients = [];
+let calibrationRecorder = null; // Set while this device records a calibration
+let playbackVersion = 0; // Version of the last playback command applied
+
+// Errors about a single rejected request; the track and playback are unaffected
+const REQUEST_ERRORS = ['invalid_json', 'invalid_message', 'unknown_type', 'invalid_field', 'not_joined', 'unavailable_channel', 'forbidden', 'internal_error'];
 
 // DOM Elements
 const elements = {
   sessionId: null,
   sessionLink: null,
   copyBtn: null,
+  layoutSelect: null,
+  normalizeToggle: null,
+  readyBarrierToggle: null,
+  eqSliders: null,
+  widthSlider: null,
+  crossoverToggle: null,
+  crossoverFrequency: null,
+  subwooferSelect: null,
+  dspApplyBtn: null,
   linkInput: null,
   submitBtn: null,
+  queueBtn: null,
+  uploadBtn: null,
+  fileInput: null,
+  cancelBtn: null,
   inputSection: null,
   channelDisplay: null,
+  roleDisplay: null,
+  passwordInput: null,
+  passwordBtn: null,
+  guestRoleSelect: null,
   clientList: null,
+  swapBtn: null,
+  calibrateBtn: null,
   trackTitle: null,
+  queueList: null,
+  queueCount: null,
   // Controls (all clients see these in peer model)
   playBtn: null,
   pauseBtn: null,
@@ -47,12 +77,33 @@ function initElements() {
   elements.sessionId = document.getElementById('session-id');
   elements.sessionLink = document.getElementById('session-link');
   elements.copyBtn = document.getElementById('copy-btn');
+  elements.layoutSelect = document.getElementById('layout-select');
+  elements.normalizeToggle = document.getElementById('normalize-toggle');
+  elements.readyBarrierToggle = document.getElementById('ready-barrier-toggle');
+  elements.eqSliders = document.querySelectorAll('.eq-slider');
+  elements.widthSlider = document.getElementById('width-slider');
+  elements.crossoverToggle = document.getElementById('crossover-toggle');
+  elements.crossoverFrequency = document.getElementById('crossover-frequency');
+  elements.subwooferSelect = document.getElementById('subwoofer-select');
+  elements.dspApplyBtn = document.getElementById('dsp-apply-btn');
   elements.linkInput = document.getElementById('link-input');
   elements.submitBtn = document.getElementById('submit-btn');
+  elements.queueBtn = document.getElementById('queue-btn');
+  elements.uploadBtn = document.getElementById('upload-btn');
+  elements.fileInput = document.getElementById('file-input');
+  elements.cancelBtn = document.getElementById('cancel-btn');
   elements.inputSection = document.querySelector('.input-section');
   elements.channelDisplay = document.getElementById('channel-display');
+  elements.roleDisplay = document.getElementById('role-display');
+  elements.passwordInput = document.getElementById('password-input');
+  elements.passwordBtn = document.getElementById('password-btn');
+  elements.guestRoleSelect = document.getElementById('guest-role-select');
   elements.clientList = document.getElementById('client-list');
+  elements.swapBtn = document.getElementById('swap-btn');
+  elements.calibrateBtn = document.getElementById('calibrate-btn');
   elements.trackTitle = document.getElementById('track-title');
+  elements.queueList = document.getElementById('queue-list');
+  elements.queueCount = document.getElementById('queue-count');
   // Controls (all clients see these in peer model)
   elements.playBtn = document.getElementById('play-btn');
   elements.pauseBtn = document.getElementById('pause-btn');
@@ -140,8 +191,8 @@ function setupWebSocketHandlers() {
   // Also log outgoing messages
   const originalSend = wsClient.send.bind(wsClient);
   wsClient.send = (message) => {
-    // Skip noisy ping messages in debug log
-    if (message.type !== 'ping') {
+    // Skip noisy ping and position messages in debug log
+    if (message.type !== 'ping' && message.type !== 'position_report') {
       debugLog(`→ ${message.type}: ${JSON.stringify(message)}`, 'send');
     }
     originalSend(message);
@@ -150,42 +201,105 @@ function setupWebSocketHandlers() {
   wsClient.on('session_joined', (msg) => {
     myClientId = msg.clientId;
     myChannel = msg.channel;
+    playbackVersion = msg.playbackVersion;
+    audioManager.setVolume(msg.volume / 100);
+    elements.layoutSelect.value = msg.layout;
+    elements.normalizeToggle.checked = msg.normalize;
+    elements.readyBarrierToggle.checked = msg.readyBarrier;
+    updateAudioSettings(msg.audioSettings);
+    audioManager.setVolumeTrim(msg.trim.volumeDb);
 
-    // Initialize status machine (same for all clients in peer model)
-    statusMachine = new StatusMachine();
-    statusMachine.onChange(updateStatusDisplay);
+    // Initialize status machine (same for all clients in peer model). A
+    // resumed connection carries on from where it was.
+    if (!msg.resumed || !statusMachine) {
+      statusMachine = new StatusMachine();
+      statusMachine.onChange(updateStatusDisplay);
+    }
 
     updateChannelDisplay();
-    debugLog(`Joined as ${msg.channel} channel (client: ${msg.clientId})`, 'info');
+    myRole = msg.role;
+    updateRoleDisplay();
+    updateAccess(msg);
+    debugLog(`${msg.resumed ? 'Resumed' : 'Joined'} as ${msg.role} on ${msg.channel} channel (client: ${msg.clientId})`, 'info');
 
     // Start latency measurement
-    syncManager.startPinging((ts) => wsClient.ping(ts));
+    syncManager.startPinging((ts, sample) => wsClient.ping(ts, sample));
+    syncManager.startPositionReports(
+      () => (audioManager.isPlaying ? audioManager.getPlaybackPosition() : null),
+      (position, serverTimestamp) => wsClient.reportPosition(position, serverTimestamp)
+    );
   });
 
   wsClient.on('pong', (msg) => {
-    syncManager.handlePong(msg.serverTimestamp, msg.clientTimestamp);
+    syncManager.handlePong(msg);
   });
 
   wsClient.on('audio_loading', (msg) => {
     statusMachine.send('LOAD');
     if (elements.submitBtn) elements.submitBtn.disabled = true;
+    elements.cancelBtn.style.display = 'inline-block';
     elements.trackTitle.textContent = 'Processing...';
     console.log('[Status] Loading audio:', msg.url);
   });
 
+  wsClient.on('audio_progress', (msg) => {
+    // Background encoding continues after audio_ready; only show it while loading
+    if (!statusMachine.is('loading')) return;
+    const stageLabels = {
+      queued: 'Waiting',
+      resolving: 'Resolving',
+      buffering: 'Buffering',
+      finishing: 'Finishing',
+    };
+    const detail = msg.percent > 0 ? `${msg.percent}%` : formatTime(msg.bufferedSeconds);
+    elements.trackTitle.textContent = msg.stage === 'queued' || msg.stage === 'resolving'
+      ? `${stageLabels[msg.stage]}...`
+      : `${stageLabels[msg.stage]}... ${detail}`;
+  });
+
+  wsClient.on('processing_cancelled', () => {
+    debugLog('Processing cancelled', 'info');
+    elements.cancelBtn.style.display = 'none';
+    if (elements.submitBtn) elements.submitBtn.disabled = false;
+    // Back to the previous track if there is one
+    if (currentTitle) {
+      statusMachine.send('AUTO_READY');
+      elements.trackTitle.textContent = currentTitle;
+    } else {
+      statusMachine.send('ERROR');
+      elements.trackTitle.textContent = 'No track loaded';
+    }
+  });
+
   wsClient.on('audio_ready', async (msg) => {
     currentTitle = msg.title;
-    pendingAudioUrl = msg.audioUrl;
+    pendingVariants = msg.variants;
     serverDuration = msg.duration; // Store full duration from server
+    playbackVersion = Math.max(playbackVersion, msg.version);
     elements.trackTitle.textContent = msg.title;
     elements.duration.textContent = formatTime(msg.duration);
     if (elements.submitBtn) elements.submitBtn.disabled = false;
+    elements.cancelBtn.style.display = 'none';
     debugLog(`Audio ready: "${msg.title}" (${msg.audioUrl}), duration: ${msg.duration}s`, 'info');
+    audioManager.setTrackGain(msg.gainDb, false);
+
+    // The next queued track, loaded ahead of time; the server starts it as the previous one ends
+    if (audioManager.usePreloaded(msg.variants)) {
+      debugLog('Switching to the preloaded track', 'info');
+    }
+
+    // Still loaded from before a reconnect; 'ready' brings us back in at the live position
+    if (audioManager.hasLoaded(msg.variants)) {
+      debugLog('Audio already loaded', 'info');
+      wsClient.sendReady();
+      enableControls(true);
+      return;
+    }
 
     // Try to load audio automatically
     try {
       debugLog('Attempting to load audio...', 'info');
-      await audioManager.loadAudio(msg.audioUrl);
+      await audioManager.loadStream(pendingVariants);
       wsClient.sendReady();
       statusMachine.send('AUTO_READY');
       debugLog(`Audio loaded successfully!`, 'info');
@@ -197,17 +311,34 @@ function setupWebSocketHandlers() {
     enableControls(true);
   });
 
+  wsClient.on('preload_track', (msg) => {
+    audioManager.preloadStream(msg.variants).catch((err) => {
+      debugLog(`Preloading the next track failed: ${err.message}`, 'info');
+    });
+  });
+
   wsClient.on('play', (msg) => {
+    if (isStaleCommand(msg)) return;
     if (!audioManager.isReady()) return;
 
-    const scheduledTime = syncManager.serverTimeToLocal(msg.serverTimestamp);
-    audioManager.playAt(msg.startTime, scheduledTime);
+    audioManager.playAt(msg.startTime, msg.clientTime);
     statusMachine.send('PLAY');
     updatePlayState(true);
     startProgressUpdate();
   });
 
+  wsClient.on('resync', (msg) => {
+    if (msg.version < playbackVersion || !audioManager.isPlaying) return;
+    if (msg.startTime !== undefined) {
+      debugLog(`Resync: re-seeking to ${msg.startTime.toFixed(2)}s`, 'info');
+      audioManager.playAt(msg.startTime, msg.clientTime);
+    } else {
+      audioManager.setPlaybackRate(msg.playbackRate);
+    }
+  });
+
   wsClient.on('pause', (msg) => {
+    if (isStaleCommand(msg)) return;
     audioManager.pause();
     statusMachine.send('PAUSE');
     updatePlayState(false);
@@ -215,24 +346,152 @@ function setupWebSocketHandlers() {
   });
 
   wsClient.on('seek', (msg) => {
-    audioManager.seekTo(msg.targetTime);
+    if (isStaleCommand(msg)) return;
+    // While playing, jump at the shared instant the server scheduled
+    if (audioManager.isPlaying) {
+      audioManager.playAt(msg.targetTime, msg.clientTime);
+    } else {
+      audioManager.seekTo(msg.targetTime);
+    }
     updateProgress();
   });
 
+  wsClient.on('playback_conflict', (msg) => {
+    debugLog(`${msg.request} rejected: playback changed meanwhile (v${msg.version})`, 'info');
+    playbackVersion = Math.max(playbackVersion, msg.version);
+    updatePlayState(msg.isPlaying);
+  });
+
   wsClient.on('client_list', (msg) => {
+    // Our channel can change when the layout changes
+    const me = msg.clients.find((c) => c.id === myClientId);
+    if (me && me.channel !== myChannel) {
+      myChannel = me.channel;
+      updateChannelDisplay();
+      debugLog(`Channel changed to ${myChannel}`, 'info');
+    }
     updateClientList(msg.clients);
   });
 
+  wsClient.on('track_gain', (msg) => {
+    debugLog(`Track gain: ${msg.gainDb} dB`, 'info');
+    audioManager.setTrackGain(msg.gainDb);
+  });
+
+  wsClient.on('audio_settings_update', (msg) => {
+    debugLog('Sound settings changed', 'info');
+    updateAudioSettings(msg.settings);
+  });
+
+  wsClient.on('normalization_update', (msg) => {
+    elements.normalizeToggle.checked = msg.normalize;
+  });
+
+  wsClient.on('role_change', (msg) => {
+    myRole = msg.role;
+    updateRoleDisplay();
+    updateClientList(clients);
+    debugLog(`You are now ${msg.role}`, 'info');
+  });
+
+  wsClient.on('access_update', (msg) => {
+    updateAccess(msg);
+  });
+
+  wsClient.on('ready_barrier_update', (msg) => {
+    elements.readyBarrierToggle.checked = msg.enabled;
+  });
+
+  // Play is held until these devices have loaded the track
+  wsClient.on('waiting_for', (msg) => {
+    if (msg.clients.length === 0) {
+      updateStatusDisplay(statusMachine.getState(), statusMachine.getLabel());
+      return;
+    }
+    const names = msg.clients.map((c) => CHANNEL_NAMES[c.channel] || c.channel);
+    updateStatusDisplay('waiting', `Waiting for ${names.join(', ')}...`);
+  });
+
+  wsClient.on('layout_update', (msg) => {
+    elements.layoutSelect.value = msg.layout;
+    debugLog(`Speaker layout changed to ${msg.layout}`, 'info');
+  });
+
+  wsClient.on('queue_update', (msg) => {
+    updateQueueList(msg.queue);
+  });
+
   wsClient.on('volume_change', (msg) => {
     // Received volume change from another client
     debugLog(`Volume change received: ${msg.volume}%`, 'receive');
     audioManager.setVolume(msg.volume / 100);
   });
 
+  wsClient.on('device_trim', (msg) => {
+    debugLog(`Device trim: ${msg.trim.latencyMs}ms, ${msg.trim.volumeDb} dB`, 'info');
+    audioManager.setVolumeTrim(msg.trim.volumeDb);
+  });
+
+  wsClient.on('calibration_chirp', async (msg) => {
+    if (!audioManager.audioContext) await audioManager.init();
+    playChirpAt(audioManager.audioContext, msg.clientTime);
+  });
+
+  wsClient.on('calibration_record', (msg) => {
+    if (!calibrationRecorder) return;
+    const recorder = calibrationRecorder;
+    const slots = msg.slots.map((slot) => ({
+      clientId: slot.clientId,
+      localTime: slot.clientTime,
+    }));
+    recorder.start();
+    debugLog(`Calibrating ${slots.length} devices...`, 'info');
+
+    // Stop once the last chirp has had time to arrive
+    const end = Math.max(...slots.map((slot) => slot.localTime)) + msg.slotMs;
+    setTimeout(() => {
+      recorder.stop();
+      const offsets = recorder.analyze(slots);
+      debugLog(`Calibration offsets: ${JSON.stringify(offsets)}`, 'info');
+      wsClient.sendCalibrationResult(msg.calibrationId, offsets);
+    }, Math.max(0, end - Date.now()));
+  });
+
+  wsClient.on('calibration_complete', (msg) => {
+    calibrationRecorder = null;
+    elements.calibrateBtn.disabled = false;
+    const summary = msg.results
+      .map((r) => `${r.clientId}: ${r.latencyMs === null ? 'not heard' : `${r.latencyMs}ms`}`)
+      .join(', ');
+    debugLog(`Calibration complete - ${summary}`, 'info');
+  });
+
+  wsClient.on('calibration_failed', (msg) => {
+    calibrationRecorder?.stop();
+    calibrationRecorder = null;
+    elements.calibrateBtn.disabled = false;
+    debugLog(`Calibration failed: ${msg.message}`, 'error');
+  });
+
   wsClient.on('error', (msg) => {
-    statusMachine.send('ERROR');
     debugLog(`Server error: ${msg.message}`, 'error');
+    if (msg.code === 'unauthorized') {
+      const password = window.prompt(`${msg.message}. Password:`);
+      if (password) {
+        wsClient.password = password;
+        wsClient.join();
+      }
+      return;
+    }
+    // The join wasn't checked yet, so it's tried again as it was
+    if (msg.code === 'rate_limited') {
+      setTimeout(() => wsClient.join(), msg.retryAfterMs);
+      return;
+    }
+    if (REQUEST_ERRORS.includes(msg.code)) return;
+    statusMachine?.send('ERROR');
     elements.submitBtn.disabled = false;
+    elements.cancelBtn.style.display = 'none';
     elements.trackTitle.textContent = 'Error - try again';
   });
 }
@@ -247,24 +506,89 @@ function initEventListeners() {
     }, 2000);
   });
 
-  // Submit YouTube link
+  // Loudness normalization applies to the whole session
+  elements.normalizeToggle.addEventListener('change', () => {
+    wsClient.setNormalization(elements.normalizeToggle.checked);
+  });
+
+  elements.readyBarrierToggle.addEventListener('change', () => {
+    wsClient.setReadyBarrier(elements.readyBarrierToggle.checked);
+  });
+
+  // Empty removes the password
+  elements.passwordBtn.addEventListener('click', () => {
+    wsClient.setSessionPassword(elements.passwordInput.value || null);
+    elements.passwordInput.value = '';
+  });
+
+  elements.guestRoleSelect.addEventListener('change', () => {
+    wsClient.setGuestRole(elements.guestRoleSelect.value);
+  });
+
+  // Sound settings are rendered on the server for the whole session
+  elements.dspApplyBtn.addEventListener('click', () => {
+    wsClient.setAudioSettings(readAudioSettings());
+  });
+
+  // Speaker layout applies to the whole session
+  elements.layoutSelect.addEventListener('change', () => {
+    wsClient.setLayout(elements.layoutSelect.value);
+  });
+
+  // Swap left and right devices without reconnecting
+  elements.swapBtn.addEventListener('click', () => {
+    wsClient.swapChannels('left', 'right');
+  });
+
+  // Measure every device's output delay with this device's microphone
+  elements.calibrateBtn.addEventListener('click', async () => {
+    try {
+      if (!audioManager.audioContext) await audioManager.init();
+      await audioManager.resumeContext();
+      calibrationRecorder = new CalibrationRecorder(audioManager.audioContext);
+      await calibrationRecorder.open();
+      elements.calibrateBtn.disabled = true;
+      wsClient.startCalibration();
+    } catch (err) {
+      calibrationRecorder = null;
+      debugLog(`Microphone unavailable: ${err.message}`, 'error');
+    }
+  });
+
+  // Submit link
   elements.submitBtn.addEventListener('click', submitLink);
   elements.linkInput.addEventListener('keypress', (e) => {
     if (e.key === 'Enter') submitLink();
   });
 
+  // Add link to the end of the queue
+  elements.queueBtn.addEventListener('click', enqueueLink);
+
+  // Stop the track that's currently being processed
+  elements.cancelBtn.addEventListener('click', () => {
+    wsClient.cancelProcessing();
+  });
+
+  // Upload a local audio file
+  elements.uploadBtn.addEventListener('click', () => elements.fileInput.click());
+  elements.fileInput.addEventListener('change', () => {
+    const file = elements.fileInput.files[0];
+    if (file) uploadFile(file);
+    elements.fileInput.value = '';
+  });
+
   // Play/Pause - all clients can control in peer model
   elements.playBtn.addEventListener('click', async () => {
     debugLog('Play button clicked', 'info');
 
     try {
       // If audio not loaded yet, try to load it first
-      if (!audioManager.isReady() && pendingAudioUrl) {
+      if (!audioManager.isReady() && pendingVariants) {
         try {
           elements.playBtn.disabled = true;
           elements.playBtn.textContent = 'Loading...';
           await audioManager.resumeContext();
-          await audioManager.loadAudio(pendingAudioUrl);
+          await audioManager.loadStream(pendingVariants);
           wsClient.sendReady();
           elements.playBtn.textContent = 'Play';
           elements.playBtn.disabled = false;
@@ -277,25 +601,28 @@ function initEventListeners() {
         }
       }
 
+      // Listeners only load; playback is started by the host or a controller
+      if (myRole === 'listener') return;
       debugLog('Sending play_request to server', 'info');
-      wsClient.requestPlay();
+      wsClient.requestPlay(playbackVersion);
     } catch (err) {
       debugLog(`Play error: ${err.message}`, 'error');
     }
   });
 
   elements.pauseBtn.addEventListener('click', () => {
-    wsClient.requestPause();
+    wsClient.requestPause(playbackVersion);
   });
 
   // Seek (click on progress bar) - all clients can seek in peer model
   elements.progressBar.addEventListener('click', (e) => {
+    if (myRole === 'listener') return;
     const rect = elements.progressBar.getBoundingClientRect();
     const percent = (e.clientX - rect.left) / rect.width;
     // Use server duration for accurate seek calculation
     const duration = serverDuration > 0 ? serverDuration : audioManager.getDuration();
     const targetTime = percent * duration;
-    wsClient.requestSeek(targetTime);
+    wsClient.requestSeek(targetTime, playbackVersion);
   });
 
 }
@@ -309,9 +636,9 @@ function submitLink() {
     return;
   }
 
-  if (!isYouTubeUrl(url)) {
-    debugLog('Invalid YouTube URL', 'error');
-    console.log('[Submit] Invalid YouTube URL');
+  if (!isValidUrl(url)) {
+    debugLog('Invalid URL', 'error');
+    console.log('[Submit] Invalid URL');
     return;
   }
 
@@ -321,49 +648,171 @@ function submitLink() {
   elements.linkInput.value = '';
 }
 
-function isYouTubeUrl(url) {
+async function uploadFile(file) {
+  debugLog(`Uploading ${file.name} (${Math.round(file.size / 1024)}KB)`, 'send');
+  statusMachine.send('LOAD');
+  elements.uploadBtn.disabled = true;
+
   try {
-    const parsed = new URL(url);
-    return (
-      parsed.hostname === 'youtube.com' ||
-      parsed.hostname === 'www.youtube.com' ||
-      parsed.hostname === 'youtu.be' ||
-      parsed.hostname === 'm.youtube.com'
-    );
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await fetch(`/api/session/${wsClient.sessionId}/upload`, {
+      method: 'POST',
+      headers: { 'X-Resume-Token': wsClient.resumeToken },
+      body: formData,
+    });
+    const result = await response.json();
+    if (response.status === 409) {
+      // Cancelled - processing_cancelled already reset the UI
+      return;
+    }
+    if (!response.ok) {
+      throw new Error(result.error || `Upload failed: ${response.status}`);
+    }
+    debugLog(`Upload processed: "${result.title}"`, 'info');
+  } catch (err) {
+    statusMachine.send('ERROR');
+    debugLog(`Upload error: ${err.message}`, 'error');
+    elements.trackTitle.textContent = 'Error - try again';
+  } finally {
+    elements.uploadBtn.disabled = false;
+  }
+}
+
+function enqueueLink() {
+  const url = elements.linkInput.value.trim();
+
+  if (!url) {
+    debugLog('No URL entered', 'error');
+    return;
+  }
+
+  if (!isValidUrl(url)) {
+    debugLog('Invalid URL', 'error');
+    return;
+  }
+
+  wsClient.enqueueTrack(url);
+  elements.linkInput.value = '';
+}
+
+// Which sources are supported is decided by the server's providers
+function isValidUrl(url) {
+  try {
+    new URL(url);
+    return true;
   } catch {
     return false;
   }
 }
 
+const CHANNEL_NAMES = {
+  left: 'LEFT',
+  right: 'RIGHT',
+  center: 'CENTER',
+  lfe: 'SUB',
+  surround_left: 'SURR L',
+  surround_right: 'SURR R',
+  stereo: 'STEREO',
+};
+
+// Speaker roles for each layout (mirrors the server's layouts)
+const LAYOUT_CHANNELS = {
+  '2.0': ['left', 'right'],
+  '2.1': ['left', 'right', 'lfe'],
+  quad: ['left', 'right', 'surround_left', 'surround_right'],
+  '5.1': ['left', 'right', 'center', 'lfe', 'surround_left', 'surround_right'],
+};
+
+const ROLE_NAMES = {
+  host: 'Host',
+  controller: 'Controller',
+  listener: 'Listener',
+};
+
+// Controls the role doesn't allow are hidden by the stylesheet
+function updateRoleDisplay() {
+  elements.roleDisplay.textContent = ROLE_NAMES[myRole];
+  document.body.dataset.role = myRole;
+}
+
+function updateAccess(access) {
+  elements.passwordInput.placeholder = access.passwordProtected ? 'Password set (empty to remove)' : 'No password';
+  elements.guestRoleSelect.value = access.guestRole;
+}
+
 function updateChannelDisplay() {
-  const channelNames = {
-    left: 'LEFT',
-    right: 'RIGHT',
-    stereo: 'STEREO',
-  };
-  elements.channelDisplay.textContent = channelNames[myChannel] || myChannel;
+  elements.channelDisplay.textContent = CHANNEL_NAMES[myChannel] || myChannel;
   elements.channelDisplay.className = `channel-badge channel-${myChannel}`;
 }
 
 
-function updateClientList(clients) {
+function updateClientList(clientList) {
+  clients = clientList;
+  updateSubwooferOptions();
+
+  const channelOptions = [...(LAYOUT_CHANNELS[elements.layoutSelect.value] || LAYOUT_CHANNELS['2.0'])];
+  // The crossover adds a subwoofer channel to any layout
+  if (audioSettings?.crossover.enabled && !channelOptions.includes('lfe')) channelOptions.push('lfe');
+  channelOptions.push('stereo');
+
   elements.clientList.innerHTML = clients
     .map(
       (c) => `
       <div class="client ${c.id === myClientId ? 'client-me' : ''}">
         <div class="client-info">
-          <span class="client-channel channel-${c.channel}">${c.channel.toUpperCase()}</span>
-          <span class="client-status ${c.ready ? 'ready' : ''}">${c.ready ? 'Ready' : 'Loading...'}</span>
+          <select class="client-channel channel-${c.channel} channel-select" data-client-id="${c.id}">
+            ${channelOptions.map((ch) => `<option value="${ch}" ${ch === c.channel ? 'selected' : ''}>${CHANNEL_NAMES[ch]}</option>`).join('')}
+          </select>
+          <span class="client-status ${c.ready ? 'ready' : ''}" title="RTT ${c.clock.rttMs}ms, clock ±${c.clock.uncertaintyMs ?? '?'}ms">${c.ready ? 'Ready' : 'Loading...'}</span>
+          ${c.drift.driftMs !== null ? `<span class="client-drift" title="Playback rate ${c.drift.playbackRate}, ${c.drift.resyncs} resyncs">${c.drift.driftMs > 0 ? '+' : ''}${c.drift.driftMs}ms</span>` : ''}
+          <span class="client-quality quality-${c.quality}" title="Connection ${c.quality}, last seen ${new Date(c.lastSeenAt).toLocaleTimeString()}"></span>
+          ${myRole === 'host' && c.id !== myClientId
+            ? `<select class="role-select" data-client-id="${c.id}">
+                ${Object.entries(ROLE_NAMES).map(([role, name]) => `<option value="${role}" ${role === c.role ? 'selected' : ''}>${name}</option>`).join('')}
+              </select>`
+            : `<span class="client-role">${ROLE_NAMES[c.role]}</span>`}
           ${c.id === myClientId ? '<span class="client-me-label">(you)</span>' : ''}
         </div>
-        <div class="client-volume">
-          <input type="range" class="volume-slider" data-channel="${c.channel}" min="0" max="100" value="100">
+        <div class="client-trim">
+          <label title="Output delay of this device">
+            <input type="number" class="trim-input" data-client-id="${c.id}" data-field="latencyMs" min="0" max="1000" step="5" value="${c.trim.latencyMs}">ms
+          </label>
+          <label title="Volume trim of this device">
+            <input type="number" class="trim-input" data-client-id="${c.id}" data-field="volumeDb" min="-12" max="12" step="0.5" value="${c.trim.volumeDb}">dB
+          </label>
+        </div>
+        <div class="client-volume needs-control">
+          <input type="range" class="volume-slider" data-channel="${c.channel}" min="0" max="100" value="${c.volume}">
         </div>
       </div>
     `
     )
     .join('');
 
+  // Attach channel picker event listeners
+  elements.clientList.querySelectorAll('.channel-select').forEach((select) => {
+    select.addEventListener('change', (e) => {
+      wsClient.setChannel(e.target.value, e.target.dataset.clientId);
+    });
+  });
+
+  // Attach role picker event listeners (host only)
+  elements.clientList.querySelectorAll('.role-select').forEach((select) => {
+    select.addEventListener('change', (e) => {
+      wsClient.setRole(e.target.dataset.clientId, e.target.value);
+    });
+  });
+
+  // Attach device trim event listeners
+  elements.clientList.querySelectorAll('.trim-input').forEach((input) => {
+    input.addEventListener('change', (e) => {
+      const value = parseFloat(e.target.value);
+      if (Number.isNaN(value)) return;
+      wsClient.setDeviceTrim(e.target.dataset.clientId, { [e.target.dataset.field]: value });
+    });
+  });
+
   // Attach volume slider event listeners
   elements.clientList.querySelectorAll('.volume-slider').forEach((slider) => {
     slider.addEventListener('input', (e) => {
@@ -374,6 +823,111 @@ function updateClientList(clients) {
   });
 }
 
+// Show the session's sound settings in the controls
+function updateAudioSettings(settings) {
+  audioSettings = settings;
+  elements.eqSliders.forEach((slider) => {
+    const band = settings.eq.find((b) => b.frequency === parseFloat(slider.dataset.frequency));
+    slider.value = band ? band.gain : 0;
+  });
+  elements.widthSlider.value = settings.width;
+  elements.crossoverToggle.checked = settings.crossover.enabled;
+  elements.crossoverFrequency.value = settings.crossover.frequency;
+  updateSubwooferOptions();
+}
+
+function updateSubwooferOptions() {
+  const selected = audioSettings?.crossover.subwooferClientId;
+  elements.subwooferSelect.innerHTML = clients
+    .map((c) => `<option value="${c.id}" ${c.id === selected ? 'selected' : ''}>${c.id}${c.id === myClientId ? ' (you)' : ''}</option>`)
+    .join('');
+}
+
+function readAudioSettings() {
+  return {
+    eq: Array.from(elements.eqSliders).map((slider) => ({
+      frequency: parseFloat(slider.dataset.frequency),
+      gain: parseFloat(slider.value),
+      q: parseFloat(slider.dataset.q),
+    })),
+    crossover: {
+      enabled: elements.crossoverToggle.checked,
+      frequency: parseFloat(elements.crossoverFrequency.value),
+      subwooferClientId: elements.subwooferSelect.value || null,
+    },
+    width: parseFloat(elements.widthSlider.value),
+  };
+}
+
+function updateQueueList(queue) {
+  const statusLabels = {
+    pending: 'Queued',
+    processing: 'Processing...',
+    failed: 'Failed',
+  };
+
+  elements.queueCount.textContent = queue.length;
+
+  if (queue.length === 0) {
+    elements.queueList.innerHTML = '<div class="playlist-empty">Queue is empty</div>';
+    return;
+  }
+
+  elements.queueList.innerHTML = queue
+    .map(
+      (item, index) => `
+      <div class="playlist-item" data-item-id="${item.id}">
+        <span class="track-number">${index + 1}</span>
+        <div class="track-info">
+          <div class="track-title"></div>
+          <div class="track-duration">${item.status === 'ready' ? formatTime(item.duration) : statusLabels[item.status]}</div>
+        </div>
+        <div class="track-actions">
+          <button data-action="up" ${index === 0 ? 'disabled' : ''}>↑</button>
+          <button data-action="down" ${index === queue.length - 1 ? 'disabled' : ''}>↓</button>
+          <button data-action="remove">✕</button>
+        </div>
+      </div>
+    `
+    )
+    .join('');
+
+  // Titles come from yt-dlp, so set them as text rather than HTML
+  elements.queueList.querySelectorAll('.playlist-item').forEach((row, index) => {
+    row.querySelector('.track-title').textContent = queue[index].title;
+  });
+
+  // Attach queue action listeners
+  elements.queueList.querySelectorAll('.track-actions button').forEach((button) => {
+    button.addEventListener('click', (e) => {
+      const row = e.target.closest('.playlist-item');
+      const itemId = row.dataset.itemId;
+      const index = queue.findIndex((item) => item.id === itemId);
+      switch (e.target.dataset.action) {
+        case 'up':
+          wsClient.moveTrack(itemId, index - 1);
+          break;
+        case 'down':
+          wsClient.moveTrack(itemId, index + 1);
+          break;
+        case 'remove':
+          wsClient.removeTrack(itemId);
+          break;
+      }
+    });
+  });
+}
+
+// Commands can arrive out of order; apply only ones at least as new as the last
+function isStaleCommand(msg) {
+  if (msg.version < playbackVersion) {
+    debugLog(`Ignoring stale ${msg.type} (v${msg.version} < v${playbackVersion})`, 'info');
+    return true;
+  }
+  playbackVersion = msg.version;
+  return false;
+}
+
 function updatePlayState(playing) {
   elements.playBtn.style.display = playing ? 'none' : 'inline-block';
   elements.pauseBtn.style.display = playing ? 'inline-block' : 'none';
@@ -1,26 +1,137 @@
 import Fastify from 'fastify';
 import fastifyWebsocket from '@fastify/websocket';
 import fastifyStatic from '@fastify/static';
+import fastifyMultipart from '@fastify/multipart';
+import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { SessionManager } from './services/SessionManager.js';
-import { AudioProcessor } from './services/AudioProcessor.js';
-import { setupWebSocket } from './websocket/handlers.js';
+import {
+  AudioProcessor,
+  SUPPORTED_UPLOAD_FORMATS,
+  ProcessingCancelledError,
+} from './services/AudioProcessor.js';
+import { ChannelFiles } from './services/layouts.js';
+import {
+  VARIANTS,
+  PRIMARY_VARIANT,
+  AudioVariant,
+  isAudioVariant,
+  getVariantFile,
+} from './services/variants.js';
+import { SourceRegistry } from './services/sources/SourceRegistry.js';
+import { YouTubeProvider } from './services/sources/YouTubeProvider.js';
+import { YtDlpProvider } from './services/sources/YtDlpProvider.js';
+import { HttpAudioProvider } from './services/sources/HttpAudioProvider.js';
+import { LocalLibraryProvider } from './services/sources/LocalLibraryProvider.js';
+import {
+  setupWebSocket,
+  loadAudioSource,
+  createLoadJob,
+  endLoadJob,
+  updateAudioStatus,
+  verifyRestoredSessions,
+} from './websocket/handlers.js';
+import { describeProtocol } from './websocket/protocol.js';
+import { hasPermission } from './services/access.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 3000;
+const MAX_UPLOAD_SIZE = 200 * 1024 * 1024; // 200MB
+const MAX_AUDIO_JOBS = process.env.MAX_AUDIO_JOBS ? parseInt(process.env.MAX_AUDIO_JOBS) : 2;
+const MAX_CACHE_MB = process.env.MAX_CACHE_MB ? parseInt(process.env.MAX_CACHE_MB) : 2048;
+const SESSION_IDLE_TTL_MINUTES = process.env.SESSION_IDLE_TTL_MINUTES
+  ? parseInt(process.env.SESSION_IDLE_TTL_MINUTES)
+  : 24 * 60;
+const SESSION_EMPTY_TTL_SECONDS = process.env.SESSION_EMPTY_TTL_SECONDS
+  ? parseInt(process.env.SESSION_EMPTY_TTL_SECONDS)
+  : 60;
+const SESSION_SWEEP_INTERVAL = 30 * 1000; // 30 seconds
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const HEARTBEAT_INTERVAL_SECONDS = process.env.HEARTBEAT_INTERVAL_SECONDS
+  ? parseInt(process.env.HEARTBEAT_INTERVAL_SECONDS)
+  : 10;
+const HEARTBEAT_TIMEOUT_SECONDS = process.env.HEARTBEAT_TIMEOUT_SECONDS
+  ? parseInt(process.env.HEARTBEAT_TIMEOUT_SECONDS)
+  : 30;
+// Extra encodings to produce besides MP3, e.g. "opus_low,opus_medium" (default: all)
+const AUDIO_VARIANTS = process.env.AUDIO_VARIANTS
+  ? process.env.AUDIO_VARIANTS.split(',').map((v) => v.trim()).filter(isAudioVariant)
+  : (Object.keys(VARIANTS) as AudioVariant[]);
 
 async function main() {
   const app = Fastify({ logger: true });
 
   // Initialize services
   const audioDir = path.join(__dirname, '../audio');
-  const sessionManager = new SessionManager(audioDir);
-  const audioProcessor = new AudioProcessor(audioDir);
+  // Session state holds password hashes and device tokens, so it's kept out of the served audio directory
+  const dataDir = path.join(__dirname, '../data');
+  fs.mkdirSync(dataDir, { recursive: true });
+  const legacyStatePath = path.join(audioDir, 'sessions.json');
+  if (fs.existsSync(legacyStatePath) && !fs.existsSync(path.join(dataDir, 'sessions.json'))) {
+    fs.renameSync(legacyStatePath, path.join(dataDir, 'sessions.json'));
+  }
+  const sessionManager = new SessionManager(dataDir, {
+    idleTtlMs: SESSION_IDLE_TTL_MINUTES * 60 * 1000,
+    emptyTtlMs: SESSION_EMPTY_TTL_SECONDS * 1000,
+  });
+
+  // Audio source providers, matched in this order
+  const sources = new SourceRegistry();
+  sources.register(new YouTubeProvider());
+  sources.register(new YtDlpProvider());
+  sources.register(new HttpAudioProvider({ allowPrivateHosts: process.env.ALLOW_PRIVATE_AUDIO_URLS === '1' }));
+  if (process.env.LIBRARY_DIR) {
+    sources.register(new LocalLibraryProvider(process.env.LIBRARY_DIR));
+  }
+
+  const audioProcessor = new AudioProcessor(audioDir, sources, {
+    maxConcurrentJobs: MAX_AUDIO_JOBS,
+    maxCacheBytes: MAX_CACHE_MB * 1024 * 1024,
+    variants: AUDIO_VARIANTS,
+    getAudioReferences: () => sessionManager.getAudioReferences(),
+    onAudioStatus: (audioId, status, loudness) => updateAudioStatus(audioId, status, loudness, sessionManager),
+  });
+  await verifyRestoredSessions(sessionManager, audioProcessor);
+  await audioProcessor.evictUnused();
+
+  // Delete a session along with any audio only it was using
+  async function removeSession(sessionId: string): Promise<boolean> {
+    const session = sessionManager.getSession(sessionId);
+    if (!session) return false;
+
+    if (session.processingJobId) {
+      audioProcessor.cancel(session.processingJobId);
+    }
+    const audioIds = new Set<string>();
+    if (session.audioSource) audioIds.add(session.audioSource.audioId);
+    for (const item of session.queue) {
+      if (item.audioSource) audioIds.add(item.audioSource.audioId);
+    }
+
+    sessionManager.deleteSession(sessionId);
+    await audioProcessor.discardAudio(Array.from(audioIds));
+    console.log(`[Sessions] Removed session ${sessionId}`);
+    return true;
+  }
+
+  // Periodically remove sessions nobody has used within their TTL
+  setInterval(async () => {
+    for (const sessionId of sessionManager.getExpiredSessionIds()) {
+      try {
+        await removeSession(sessionId);
+      } catch (err) {
+        console.error(`[Sessions] Failed to remove expired session ${sessionId}:`, err);
+      }
+    }
+  }, SESSION_SWEEP_INTERVAL).unref();
 
   // Register plugins
   await app.register(fastifyWebsocket);
+  await app.register(fastifyMultipart, {
+    limits: { fileSize: MAX_UPLOAD_SIZE, files: 1 },
+  });
 
   // Serve static files from public/
   await app.register(fastifyStatic, {
@@ -28,14 +139,19 @@ async function main() {
     prefix: '/',
   });
 
-  // Serve audio files
+  // Serve processed audio: only files in a track's directory, not the cache
+  // index or uploads
   await app.register(fastifyStatic, {
-    root: path.join(__dirname, '../audio'),
+    root: audioDir,
     prefix: '/audio/',
     decorateReply: false,
+    allowedPath: (pathName) => /^\/[\w-]{10}\/[\w.-]+$/.test(pathName),
   });
 
   // API routes
+  // Message schemas of the WebSocket protocol, for building other clients against
+  app.get('/api/protocol', async () => describeProtocol());
+
   app.get('/api/session/:sessionId', async (request, reply) => {
     const { sessionId } = request.params as { sessionId: string };
     const session = sessionManager.getSession(sessionId);
@@ -50,8 +166,116 @@ async function main() {
     };
   });
 
+  // Admin routes need the ADMIN_TOKEN bearer token, or a loopback request if none is set.
+  // Matched on the route, since the raw URL may be percent-encoded (/api/%61dmin/...)
+  app.addHook('onRequest', async (request, reply) => {
+    if (!request.routeOptions.url?.startsWith('/api/admin/')) return;
+    const allowed = ADMIN_TOKEN
+      ? request.headers.authorization === `Bearer ${ADMIN_TOKEN}`
+      : ['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(request.ip);
+    if (!allowed) {
+      return reply.status(401).send({ error: 'Unauthorized' });
+    }
+  });
+
+  app.get('/api/admin/sessions', async () => {
+    return { sessions: sessionManager.listSessions() };
+  });
+
+  app.delete('/api/admin/sessions/:sessionId', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+    if (!(await removeSession(sessionId))) {
+      return reply.status(404).send({ error: 'Session not found' });
+    }
+    return { deleted: sessionId };
+  });
+
+  // Segments of a channel variant encoded so far, polled by clients while it's still encoding
+  app.get('/api/audio/:audioId/:channel/manifest', async (request, reply) => {
+    const { audioId, channel } = request.params as { audioId: string; channel: string };
+    const { variant = PRIMARY_VARIANT } = request.query as { variant?: string };
+    const source = sessionManager.findAudioSource(audioId);
+    const file = source?.files[channel as keyof ChannelFiles];
+    if (!source || !file) {
+      return reply.status(404).send({ error: 'Audio not found' });
+    }
+    if (!isAudioVariant(variant) || !source.variants.includes(variant)) {
+      return reply.status(404).send({ error: `Variant not available: ${variant}` });
+    }
+    return audioProcessor.getSegmentManifest(audioId, getVariantFile(file, variant), source.duration);
+  });
+
+  // Upload a local audio file as the session's current track. The uploader
+  // identifies itself with its WebSocket resume token.
+  app.post('/api/session/:sessionId/upload', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      return reply.status(404).send({ error: 'Session not found' });
+    }
+    const token = request.headers['x-resume-token'];
+    const client = typeof token === 'string' ? sessionManager.getClientByResumeToken(sessionId, token) : undefined;
+    if (!client) {
+      return reply.status(401).send({ error: 'Unauthorized' });
+    }
+    if (!hasPermission(client.role, 'tracks')) {
+      return reply.status(403).send({ error: 'Not allowed to load tracks in this session' });
+    }
+
+    const file = await request.file();
+    if (!file) {
+      return reply.status(400).send({ error: 'No file uploaded' });
+    }
+
+    const ext = path.extname(file.filename).toLowerCase();
+    if (!SUPPORTED_UPLOAD_FORMATS.includes(ext)) {
+      file.file.resume(); // Drain the rejected upload
+      return reply.status(415).send({
+        error: `Unsupported file type. Supported: ${SUPPORTED_UPLOAD_FORMATS.join(', ')}`,
+      });
+    }
+
+    sessionManager.broadcastToSession(sessionId, {
+      type: 'audio_loading',
+      url: file.filename,
+    });
+
+    const job = createLoadJob(sessionId, file.filename, sessionManager);
+    try {
+      const processed = await audioProcessor.processUpload(file.file, file.filename, session.layout, job);
+
+      loadAudioSource(sessionId, {
+        url: processed.url,
+        title: processed.title,
+        duration: processed.duration,
+        layout: processed.layout,
+        settingsKey: processed.settingsKey,
+        audioId: processed.id,
+        files: processed.files,
+        variants: processed.variants,
+        status: processed.status,
+        loudness: processed.loudness,
+      }, sessionManager, audioProcessor);
+
+      return { title: processed.title, duration: processed.duration };
+    } catch (err) {
+      if (err instanceof ProcessingCancelledError) {
+        return reply.status(409).send({ error: 'Processing cancelled' });
+      }
+      endLoadJob(sessionId, job, sessionManager);
+      if (err instanceof app.multipartErrors.RequestFileTooLargeError) {
+        return reply.status(413).send({ error: 'File too large' });
+      }
+      app.log.error(err);
+      return reply.status(500).send({ error: 'Failed to process audio' });
+    }
+  });
+
   // WebSocket handler
-  setupWebSocket(app, sessionManager, audioProcessor);
+  setupWebSocket(app, sessionManager, audioProcessor, {
+    intervalMs: HEARTBEAT_INTERVAL_SECONDS * 1000,
+    timeoutMs: HEARTBEAT_TIMEOUT_SECONDS * 1000,
+  });
 
   // Start server
   try {
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import type { ProcessedAudio } from './AudioProcessor.js';
+import { PRIMARY_VARIANT } from './variants.js';
+
+export interface CacheEntry {
+  key: string; // `${layout}:${sourceId}`
+  audio: ProcessedAudio;
+  size: number; // Bytes on disk, known once encoding is complete
+  lastUsed: number;
+  complete: boolean; // Background encoding has finished
+}
+
+interface PersistedCache {
+  entries: CacheEntry[];
+}
+
+// Index of processed audio directories, keyed by source identity and layout,
+// so the same track is only split once no matter how many sessions play it
+export class AudioCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private audioDir: string;
+  private indexPath: string;
+  private maxBytes: number;
+
+  constructor(audioDir: string, maxBytes: number) {
+    this.audioDir = audioDir;
+    this.indexPath = path.join(audioDir, 'cache.json');
+    this.maxBytes = maxBytes;
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.indexPath)) {
+        const state: PersistedCache = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8'));
+        for (const entry of state.entries) {
+          // Encodes that were cut short by a restart can't be reused
+          if (entry.complete && fs.existsSync(path.join(this.audioDir, entry.audio.id))) {
+            // Not recorded by older indexes
+            entry.audio.status = 'complete';
+            entry.audio.variants ??= [PRIMARY_VARIANT];
+            entry.audio.loudness ??= null;
+            entry.audio.settingsKey ??= 'flat';
+            this.entries.set(entry.key, entry);
+          }
+        }
+        console.log(`[AudioCache] Loaded ${this.entries.size} entries (${formatMB(this.getTotalSize())})`);
+      }
+    } catch (err) {
+      console.error('[AudioCache] Failed to load index:', err);
+    }
+  }
+
+  private save(): void {
+    try {
+      const state: PersistedCache = { entries: Array.from(this.entries.values()) };
+      fs.writeFileSync(this.indexPath, JSON.stringify(state, null, 2));
+    } catch (err) {
+      console.error('[AudioCache] Failed to save index:', err);
+    }
+  }
+
+  get(key: string): ProcessedAudio | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    entry.lastUsed = Date.now();
+    this.save();
+    return entry.audio;
+  }
+
+  add(key: string, audio: ProcessedAudio): void {
+    this.entries.set(key, {
+      key,
+      audio,
+      size: 0,
+      lastUsed: Date.now(),
+      complete: false,
+    });
+    this.save();
+  }
+
+  markComplete(audioId: string): void {
+    const entry = this.findByAudioId(audioId);
+    if (!entry) return;
+    entry.complete = true;
+    entry.audio.status = 'complete';
+    entry.size = getDirectorySize(path.join(this.audioDir, audioId));
+    this.save();
+  }
+
+  remove(audioId: string): CacheEntry | undefined {
+    const entry = this.findByAudioId(audioId);
+    if (entry) {
+      this.entries.delete(entry.key);
+      this.save();
+    }
+    return entry;
+  }
+
+  // Whether any remaining entry was processed from this source URL
+  hasSourceUrl(url: string): boolean {
+    for (const entry of this.entries.values()) {
+      if (entry.audio.url === url) return true;
+    }
+    return false;
+  }
+
+  getTotalSize(): number {
+    let total = 0;
+    for (const entry of this.entries.values()) total += entry.size;
+    return total;
+  }
+
+  // Least recently used entries that must go to get back under the size limit.
+  // Entries still referenced by a session or still encoding are never evicted.
+  selectForEviction(references: Map<string, number>): CacheEntry[] {
+    let total = this.getTotalSize();
+    if (total <= this.maxBytes) return [];
+
+    const candidates = Array.from(this.entries.values())
+      .filter((entry) => entry.complete && !references.get(entry.audio.id))
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    const evicted: CacheEntry[] = [];
+    for (const entry of candidates) {
+      if (total <= this.maxBytes) break;
+      evicted.push(entry);
+      total -= entry.size;
+    }
+    return evicted;
+  }
+
+  private findByAudioId(audioId: string): CacheEntry | undefined {
+    for (const entry of this.entries.values()) {
+      if (entry.audio.id === audioId) return entry;
+    }
+    return undefined;
+  }
+}
+
+function getDirectorySize(dir: string): number {
+  try {
+    return fs.readdirSync(dir).reduce((total, file) => total + fs.statSync(path.join(dir, file)).size, 0);
+  } catch {
+    return 0;
+  }
+}
+
+function formatMB(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)}MB`;
+}
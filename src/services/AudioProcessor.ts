@@ -1,64 +1,573 @@
 import { spawn, ChildProcess } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises';
-import { existsSync, statSync } from 'fs';
+import { existsSync, statSync, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { nanoid } from 'nanoid';
+import { SourceRegistry } from './sources/SourceRegistry.js';
+import { SourceProvider } from './sources/SourceProvider.js';
+import { UploadProvider } from './sources/UploadProvider.js';
+import { getTitle } from './sources/ytdlp.js';
+import { LAYOUTS, SpeakerLayout, SpeakerChannel, ChannelFiles } from './layouts.js';
+import { AudioCache } from './AudioCache.js';
+import { VARIANTS, PRIMARY_VARIANT, AudioVariant, getVariantFile } from './variants.js';
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS, getSettingsKey, getOutputChannels } from './dsp.js';
+
+// Whether the background ffmpeg run has written the whole track
+export type AudioStatus = 'buffering' | 'complete' | 'failed';
+
+// EBU R128 measurement of the whole track
+export interface Loudness {
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+}
 
 export interface ProcessedAudio {
   id: string;
+  url: string; // Source URL the audio was processed from
   title: string;
   duration: number;
-  files: {
-    stereo: string;
-    left: string;
-    right: string;
-  };
+  layout: SpeakerLayout;
+  settingsKey: string; // DSP the files were rendered with, see getSettingsKey()
+  files: ChannelFiles;
+  variants: AudioVariant[]; // Encodings available for every channel
+  status: AudioStatus;
+  loudness: Loudness | null; // Known once encoding is complete
 }
 
 // Minimum buffer size before allowing playback (500KB = ~30s of audio at 128kbps)
 const MIN_BUFFER_SIZE = 500 * 1024;
 
+// File extensions accepted for local uploads
+export const SUPPORTED_UPLOAD_FORMATS = ['.mp3', '.flac', '.wav', '.ogg'];
+
+// ffmpeg channel names for each speaker role
+const CHANNEL_PAN: Record<SpeakerChannel, string> = {
+  left: 'FL',
+  right: 'FR',
+  center: 'FC',
+  lfe: 'LFE',
+  surround_left: 'BL',
+  surround_right: 'BR',
+};
+
+// Crossover frequency for an LFE channel derived from a stereo mix
+const LFE_CUTOFF_HZ = 120;
+
+// How much shorter than the source a finished channel file may probe as
+const DURATION_TOLERANCE_SECONDS = 2;
+
+// ffmpeg and yt-dlp log for as long as they run, so only the end of their
+// stderr is kept: that's where errors and the loudness summary are
+const STDERR_TAIL_CHARS = 16 * 1024;
+
+// Length of the MP3 segments written alongside each channel file for streaming
+const SEGMENT_SECONDS = 10;
+
+export interface AudioSegment {
+  url: string;
+  start: number; // Seconds into the track
+  end: number;
+}
+
+// What a client needs to stream a channel that may still be encoding
+export interface SegmentManifest {
+  duration: number;
+  complete: boolean; // No more segments will be added
+  encodedSeconds: number;
+  segments: AudioSegment[];
+}
+
+export type ProcessingStage = 'queued' | 'resolving' | 'buffering' | 'finishing';
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  percent: number; // 0-100 of the full track, 0 while the duration is unknown
+  bufferedSeconds: number; // Seconds of audio encoded so far
+}
+
+export interface ProcessOptions {
+  jobId?: string; // Pass an id to be able to cancel() the job
+  // A newer job with the same owner (e.g. a session id) supersedes this one
+  owner?: string;
+  onProgress?: (progress: ProcessingProgress) => void;
+  settings?: AudioSettings; // Session DSP to render with (default: none)
+}
+
+export interface AudioProcessorOptions {
+  maxConcurrentJobs?: number;
+  maxCacheBytes?: number;
+  // Encodings produced besides the primary MP3
+  variants?: AudioVariant[];
+  // How many sessions use each audio id; referenced audio is never evicted
+  getAudioReferences?: () => Map<string, number>;
+  // Called when background encoding of an audio id completes or dies
+  onAudioStatus?: (audioId: string, status: AudioStatus, loudness: Loudness | null) => void;
+}
+
+export class ProcessingCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Processing job ${jobId} was cancelled`);
+    this.name = 'ProcessingCancelledError';
+  }
+}
+
+export class ProcessingSupersededError extends ProcessingCancelledError {
+  constructor(jobId: string) {
+    super(jobId);
+    this.message = `Processing job ${jobId} was superseded by a newer one`;
+    this.name = 'ProcessingSupersededError';
+  }
+}
+
+const DEFAULT_MAX_CONCURRENT_JOBS = 2;
+const DEFAULT_MAX_CACHE_BYTES = 2 * 1024 * 1024 * 1024; // 2GB
+
+interface JobSubscriber {
+  owner?: string;
+  onProgress?: (progress: ProcessingProgress) => void;
+  resolve: (audio: ProcessedAudio) => void;
+  reject: (err: Error) => void;
+}
+
+// One unit of yt-dlp/ffmpeg work, shared by every request for the same source
+interface ProcessingJob {
+  key: string;
+  url: string;
+  layout: SpeakerLayout;
+  settings: AudioSettings;
+  controller: AbortController;
+  started: boolean;
+  subscribers: Map<string, JobSubscriber>; // Waiting for the buffer to be ready
+  listeners: Set<(progress: ProcessingProgress) => void>; // Progress, including background encoding
+}
+
 export class AudioProcessor {
   private audioDir: string;
-
-  constructor(audioDir: string) {
+  private sources: SourceRegistry;
+  private uploads: UploadProvider;
+  private maxConcurrentJobs: number;
+  private variants: AudioVariant[];
+  private cache: AudioCache;
+  private getAudioReferences: () => Map<string, number>;
+  private onAudioStatus: (audioId: string, status: AudioStatus, loudness: Loudness | null) => void;
+  // Most recent request per owner, so a slow source lookup can't undo a supersede
+  private latestByOwner: Map<string, string> = new Map();
+  private running = 0; // Jobs holding a slot (until ffmpeg exits)
+  private pending: ProcessingJob[] = [];
+  // In-flight jobs by source, until their buffer is ready
+  private jobs: Map<string, ProcessingJob> = new Map();
+  // Subscriber id -> job, for cancel()
+  private subscriptions: Map<string, ProcessingJob> = new Map();
+  // Uploads still being received, cancellable by job id
+  private receiving: Map<string, AbortController> = new Map();
+  // Audio ids ffmpeg is still writing segments for
+  private encoding: Set<string> = new Set();
+
+  constructor(audioDir: string, sources: SourceRegistry, options: AudioProcessorOptions = {}) {
     this.audioDir = audioDir;
+    this.sources = sources;
+    this.maxConcurrentJobs = options.maxConcurrentJobs ?? DEFAULT_MAX_CONCURRENT_JOBS;
+    const extras = options.variants ?? (Object.keys(VARIANTS) as AudioVariant[]);
+    this.variants = (Object.keys(VARIANTS) as AudioVariant[])
+      .filter((variant) => variant === PRIMARY_VARIANT || extras.includes(variant));
+    this.cache = new AudioCache(audioDir, options.maxCacheBytes ?? DEFAULT_MAX_CACHE_BYTES);
+    this.getAudioReferences = options.getAudioReferences ?? (() => new Map());
+    this.onAudioStatus = options.onAudioStatus ?? (() => {});
+    // Not part of the registry: upload:// URLs are only ever created by processUpload
+    this.uploads = new UploadProvider(path.join(audioDir, 'uploads'));
+  }
+
+  getProvider(url: string): SourceProvider | undefined {
+    if (this.uploads.matches(url)) return this.uploads;
+    return this.sources.find(url);
+  }
+
+  // Whether a client may submit this URL. upload:// URLs are excluded: they
+  // name files on disk and only come from processUpload.
+  acceptsUrl(url: string): boolean {
+    return this.sources.find(url) !== undefined;
+  }
+
+  getProviderNames(): string[] {
+    return this.sources.getProviderNames();
+  }
+
+  // Stop waiting for a job. The job itself (its yt-dlp/ffmpeg processes and
+  // output) is only killed and cleaned up once nobody else is waiting for it.
+  cancel(jobId: string): boolean {
+    const receiving = this.receiving.get(jobId);
+    if (receiving) {
+      receiving.abort();
+      return true;
+    }
+
+    const job = this.subscriptions.get(jobId);
+    if (!job) return false;
+    console.log(`[AudioProcessor] Cancelling job ${jobId}`);
+    this.unsubscribe(job, jobId, new ProcessingCancelledError(jobId));
+    return true;
+  }
+
+  // Process a source for a layout. Audio that was already split is reused
+  // straight from the cache; otherwise requests for the same source share one
+  // queued job, and at most maxConcurrentJobs run at once.
+  async processUrl(url: string, layout: SpeakerLayout, options: ProcessOptions = {}): Promise<ProcessedAudio> {
+    const provider = this.getProvider(url);
+    if (!provider) {
+      throw new Error(`No source provider for URL: ${url}`);
+    }
+
+    const subscriberId = options.jobId ?? nanoid(10);
+    if (options.owner) {
+      this.supersede(options.owner);
+      this.latestByOwner.set(options.owner, subscriberId);
+    }
+
+    const sourceId = await provider.getSourceId(url);
+    if (options.owner && this.latestByOwner.get(options.owner) !== subscriberId) {
+      throw new ProcessingSupersededError(subscriberId);
+    }
+
+    // Flat renders keep the key format from before DSP settings existed
+    const settings = options.settings ?? DEFAULT_AUDIO_SETTINGS;
+    const settingsKey = getSettingsKey(settings);
+    const key = settingsKey === 'flat' ? `${layout}:${sourceId}` : `${layout}:${settingsKey}:${sourceId}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      console.log(`[AudioProcessor] Cache hit for ${sourceId} (${layout}, ${settingsKey})`);
+      return cached;
+    }
+
+    // Requests for the same source, layout and settings share one job
+    let job = this.jobs.get(key);
+    if (job) {
+      console.log(`[AudioProcessor] Joining in-flight job for ${sourceId} (${layout})`);
+    } else {
+      job = {
+        key,
+        url,
+        layout,
+        settings,
+        controller: new AbortController(),
+        started: false,
+        subscribers: new Map(),
+        listeners: new Set(),
+      };
+      this.jobs.set(key, job);
+      this.pending.push(job);
+    }
+
+    const current = job;
+    return new Promise((resolve, reject) => {
+      current.subscribers.set(subscriberId, { owner: options.owner, onProgress: options.onProgress, resolve, reject });
+      if (options.onProgress) current.listeners.add(options.onProgress);
+      this.subscriptions.set(subscriberId, current);
+
+      this.pump();
+      if (!current.started) {
+        console.log(`[AudioProcessor] Job queued (${this.pending.length} waiting): ${url}`);
+        options.onProgress?.({ stage: 'queued', percent: 0, bufferedSeconds: 0 });
+      }
+    });
+  }
+
+  // Drop the owner's previous request, so the latest submission wins
+  private supersede(owner: string): void {
+    for (const [subscriberId, job] of this.subscriptions) {
+      if (job.subscribers.get(subscriberId)?.owner === owner) {
+        console.log(`[AudioProcessor] Job ${subscriberId} superseded for ${owner}`);
+        this.unsubscribe(job, subscriberId, new ProcessingSupersededError(subscriberId));
+      }
+    }
+  }
+
+  private unsubscribe(job: ProcessingJob, subscriberId: string, reason: Error): void {
+    const subscriber = job.subscribers.get(subscriberId);
+    if (!subscriber) return;
+
+    job.subscribers.delete(subscriberId);
+    this.subscriptions.delete(subscriberId);
+    if (subscriber.onProgress) job.listeners.delete(subscriber.onProgress);
+    subscriber.reject(reason);
+
+    if (job.subscribers.size > 0) return;
+
+    // Nobody is waiting any more
+    if (this.jobs.get(job.key) === job) this.jobs.delete(job.key);
+    if (job.started) {
+      job.controller.abort();
+    } else {
+      this.pending = this.pending.filter((j) => j !== job);
+    }
+  }
+
+  // Start queued jobs while there are free slots
+  private pump(): void {
+    while (this.running < this.maxConcurrentJobs && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      job.started = true;
+      this.running++;
+
+      // The slot is held until ffmpeg exits, not just until the buffer is ready
+      let released = false;
+      const release = () => {
+        if (released) return;
+        released = true;
+        this.running--;
+        this.pump();
+      };
+
+      this.runJob(job, release)
+        .then((audio) => this.settle(job, (subscriber) => subscriber.resolve(audio)))
+        .catch((err) => {
+          release();
+          this.settle(job, (subscriber) => subscriber.reject(err));
+        });
+    }
+  }
+
+  private settle(job: ProcessingJob, notify: (subscriber: JobSubscriber) => void): void {
+    if (this.jobs.get(job.key) === job) this.jobs.delete(job.key);
+    for (const [subscriberId, subscriber] of job.subscribers) {
+      this.subscriptions.delete(subscriberId);
+      notify(subscriber);
+    }
+    job.subscribers.clear();
+  }
+
+  private onEncodingFinished(audioId: string, success: boolean, loudness: Loudness | null): void {
+    this.onAudioStatus(audioId, success ? 'complete' : 'failed', loudness);
+    if (success) {
+      this.cache.markComplete(audioId);
+      void this.evictUnused();
+      return;
+    }
+
+    // Truncated output must not be handed to other sessions
+    if (this.cache.remove(audioId) && !this.getAudioReferences().get(audioId)) {
+      void this.cleanup(audioId);
+    }
+  }
+
+  // Check with ffprobe that every channel file of processed audio exists and
+  // runs for the full track, i.e. ffmpeg wasn't cut off halfway
+  async verifyAudio(audioId: string, files: ChannelFiles, duration: number): Promise<boolean> {
+    const filePaths = new Set(
+      Object.values(files).map((file) => path.join(this.audioDir, file.replace(/^\/audio\//, '')))
+    );
+    for (const filePath of filePaths) {
+      if (!existsSync(filePath)) {
+        console.log(`[AudioProcessor] ${audioId} is missing ${path.basename(filePath)}`);
+        return false;
+      }
+      const actual = await this.getAudioDuration(filePath);
+      if (actual <= 0 || (duration > 0 && actual < duration - DURATION_TOLERANCE_SECONDS)) {
+        console.log(`[AudioProcessor] ${audioId} is truncated: ${path.basename(filePath)} is ${actual}s of ${duration}s`);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Segments of one channel encoded so far. ffmpeg adds a line to the channel's
+  // segment list as each segment is closed, so listed segments are complete.
+  async getSegmentManifest(audioId: string, file: string, duration: number): Promise<SegmentManifest> {
+    const name = path.parse(file).name;
+    const listPath = path.join(this.audioDir, audioId, `${name}.csv`);
+    const complete = !this.encoding.has(audioId);
+
+    let list: string;
+    try {
+      list = await fs.readFile(listPath, 'utf-8');
+    } catch {
+      // Processed before segmenting existed (or not started yet): the whole file is one segment
+      if (!complete) return { duration, complete, encodedSeconds: 0, segments: [] };
+      return { duration, complete, encodedSeconds: duration, segments: [{ url: file, start: 0, end: duration }] };
+    }
+
+    const segments = list
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => {
+        const [segmentFile, start, end] = line.split(',');
+        return { url: `/audio/${audioId}/${segmentFile}`, start: parseFloat(start), end: parseFloat(end) };
+      });
+    const encodedSeconds = segments.length > 0 ? segments[segments.length - 1].end : 0;
+    return { duration, complete, encodedSeconds, segments };
   }
 
-  async processYouTubeUrl(url: string): Promise<ProcessedAudio> {
+  // Drop broken audio from the cache and disk so the source is processed again
+  async invalidate(audioId: string): Promise<void> {
+    this.cache.remove(audioId);
+    await this.cleanup(audioId);
+  }
+
+  // Delete audio that no session references any more (e.g. after its session
+  // was removed), regardless of the cache's size budget
+  async discardAudio(audioIds: string[]): Promise<void> {
+    const references = this.getAudioReferences();
+    for (const audioId of audioIds) {
+      if (references.get(audioId)) continue;
+      const entry = this.cache.remove(audioId);
+      console.log(`[AudioProcessor] Discarding ${audioId}`);
+      await this.cleanup(audioId);
+      if (entry) await this.removeUploadIfUnused(entry.audio.url);
+    }
+  }
+
+  // Uploaded originals go once nothing processed from them is left
+  private async removeUploadIfUnused(url: string): Promise<void> {
+    if (!this.uploads.matches(url) || this.cache.hasSourceUrl(url)) return;
+    try {
+      await fs.rm(await this.uploads.resolveStream(url), { force: true });
+    } catch {
+      // Already gone
+    }
+  }
+
+  // Delete least recently used audio nobody is playing until the cache fits
+  async evictUnused(): Promise<void> {
+    const evicted = this.cache.selectForEviction(this.getAudioReferences());
+    for (const entry of evicted) {
+      console.log(`[AudioProcessor] Evicting ${entry.audio.title} (${entry.audio.id}) from cache`);
+      this.cache.remove(entry.audio.id);
+      await this.cleanup(entry.audio.id);
+      await this.removeUploadIfUnused(entry.audio.url);
+    }
+  }
+
+  private async runJob(job: ProcessingJob, onExit: () => void): Promise<ProcessedAudio> {
+    const { url, layout, settings } = job;
+    const { signal } = job.controller;
+    const provider = this.getProvider(url)!;
+    const onProgress = (progress: ProcessingProgress) => {
+      for (const listener of job.listeners) listener(progress);
+    };
+
     const id = nanoid(10);
     const outputDir = path.join(this.audioDir, id);
-    await fs.mkdir(outputDir, { recursive: true });
-
-    const leftPath = path.join(outputDir, 'left.mp3');
-    const rightPath = path.join(outputDir, 'right.mp3');
-
-    // Get title, duration, and stream URL in parallel
-    console.log(`[AudioProcessor] Getting stream info: ${url}`);
-    const [title, duration, streamUrl] = await Promise.all([
-      this.getYouTubeTitle(url),
-      this.getYouTubeDuration(url),
-      this.getStreamUrl(url),
-    ]);
-
-    // Start streaming through ffmpeg (returns early once buffer is ready)
-    console.log(`[AudioProcessor] Streaming and splitting channels...`);
-    await this.processStreamToChannelsProgressive(streamUrl, leftPath, rightPath);
-
-    console.log(`[AudioProcessor] Buffer ready! Duration: ${duration}s (processing continues in background)`);
-
-    const result = {
-      id,
-      title,
-      duration,
-      files: {
+
+    // One mono file per speaker in the layout (and the crossover's sub)
+    const outputs = getOutputChannels(layout, settings).map((channel) => ({
+      channel,
+      path: path.join(outputDir, `${channel}.mp3`),
+    }));
+
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+      onProgress({ stage: 'resolving', percent: 0, bufferedSeconds: 0 });
+
+      // Get metadata and stream URL in parallel
+      console.log(`[AudioProcessor] Getting stream info (${provider.name}): ${url}`);
+      const [metadata, streamUrl] = await Promise.all([
+        provider.getMetadata(url, signal),
+        provider.resolveStream(url, signal),
+      ]);
+      const { title } = metadata;
+      // Providers without duration metadata leave it to ffprobe
+      const duration = metadata.duration || await this.getAudioDuration(streamUrl, signal);
+
+      // Start streaming through ffmpeg (returns early once buffer is ready)
+      console.log(`[AudioProcessor] Streaming and splitting channels (${layout})...`);
+      const files: ChannelFiles = {
         stereo: `/audio/${id}/left.mp3`, // No separate stereo file in streaming mode
-        left: `/audio/${id}/left.mp3`,
-        right: `/audio/${id}/right.mp3`,
-      },
-    };
+      };
+      for (const { channel } of outputs) {
+        files[channel] = `/audio/${id}/${channel}.mp3`;
+      }
+      const variants = this.variants;
+      const audio: ProcessedAudio = {
+        id,
+        url,
+        title,
+        duration,
+        layout,
+        settingsKey: getSettingsKey(settings),
+        files,
+        variants,
+        status: 'buffering',
+        loudness: null,
+      };
+
+      // Short tracks can finish encoding before the buffer is reported ready
+      let cached = false;
+      let finished: boolean | undefined;
+      this.encoding.add(id);
+      await this.processStreamToChannelsProgressive(streamUrl, outputs, layout, {
+        settings,
+        variants,
+        duration,
+        signal,
+        onProgress,
+        onExit: (success, loudness) => {
+          this.encoding.delete(id);
+          onExit();
+          finished = success;
+          audio.loudness = loudness;
+          if (cached) this.onEncodingFinished(id, success, loudness);
+        },
+      });
+
+      console.log(`[AudioProcessor] Buffer ready! Duration: ${duration}s (processing continues in background)`);
+      this.cache.add(job.key, audio);
+      cached = true;
+      if (finished !== undefined) {
+        audio.status = finished ? 'complete' : 'failed';
+        this.onEncodingFinished(id, finished, audio.loudness);
+      }
+      return audio;
+    } catch (err) {
+      if (signal.aborted) {
+        await this.cleanup(id);
+        throw new ProcessingCancelledError(job.key);
+      }
+      throw err;
+    }
+  }
+
+  async processUpload(
+    file: Readable,
+    filename: string,
+    layout: SpeakerLayout,
+    options: ProcessOptions = {}
+  ): Promise<ProcessedAudio> {
+    const ext = path.extname(filename).toLowerCase();
+    if (!SUPPORTED_UPLOAD_FORMATS.includes(ext)) {
+      throw new Error(`Unsupported file type: ${ext || 'none'}`);
+    }
+
+    const uploadId = nanoid(10);
+    const jobId = options.jobId ?? uploadId;
+    const sourcePath = this.uploads.getFilePath(uploadId, filename);
+    await fs.mkdir(path.dirname(sourcePath), { recursive: true });
 
-    return result;
+    try {
+      console.log(`[AudioProcessor] Receiving upload: ${filename}`);
+      const controller = new AbortController();
+      this.receiving.set(jobId, controller);
+      try {
+        await pipeline(file, createWriteStream(sourcePath), { signal: controller.signal });
+      } catch (err) {
+        if (controller.signal.aborted) throw new ProcessingCancelledError(jobId);
+        throw err;
+      } finally {
+        this.receiving.delete(jobId);
+      }
+
+      // Same channel split as streamed sources, just reading from disk
+      const uploadUrl = UploadProvider.toUrl(uploadId, filename);
+      const audio = await this.processUrl(uploadUrl, layout, { ...options, jobId });
+      if (audio.url !== uploadUrl) {
+        // Same file was uploaded before, the cached copy is used instead
+        await fs.rm(sourcePath, { force: true });
+      }
+      return audio;
+    } catch (err) {
+      await fs.rm(sourcePath, { force: true });
+      throw err;
+    }
   }
 
   private async downloadWithYtDlp(
@@ -66,7 +575,7 @@ export class AudioProcessor {
     outputPath: string
   ): Promise<{ title: string }> {
     // First, get the title
-    const title = await this.getYouTubeTitle(url);
+    const title = await getTitle(url);
 
     // Then download
     await new Promise<void>((resolve, reject) => {
@@ -90,7 +599,7 @@ export class AudioProcessor {
       });
 
       proc.stderr.on('data', (data) => {
-        stderr += data.toString();
+        stderr = appendTail(stderr, data.toString());
         const msg = data.toString().trim();
         if (msg && !msg.startsWith('WARNING')) {
           console.log('[yt-dlp stderr]', msg);
@@ -111,75 +620,6 @@ export class AudioProcessor {
     return { title };
   }
 
-  private getYouTubeTitle(url: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const proc = spawn('yt-dlp', ['--print', 'title', '--no-playlist', url]);
-      let stdout = '';
-
-      proc.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      proc.on('close', (code) => {
-        if (code === 0) {
-          resolve(stdout.trim() || 'Unknown');
-        } else {
-          resolve('Unknown');
-        }
-      });
-
-      proc.on('error', () => resolve('Unknown'));
-    });
-  }
-
-  private getStreamUrl(url: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const proc = spawn('yt-dlp', ['-g', '-f', 'bestaudio', '--no-playlist', url]);
-      let stdout = '';
-      let stderr = '';
-
-      proc.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      proc.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      proc.on('close', (code) => {
-        if (code === 0 && stdout.trim()) {
-          resolve(stdout.trim().split('\n')[0]); // Take first URL if multiple
-        } else {
-          reject(new Error(`Failed to get stream URL: ${stderr}`));
-        }
-      });
-
-      proc.on('error', reject);
-    });
-  }
-
-  private getYouTubeDuration(url: string): Promise<number> {
-    return new Promise((resolve) => {
-      const proc = spawn('yt-dlp', ['--print', 'duration', '--no-playlist', url]);
-      let stdout = '';
-
-      proc.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      proc.on('close', (code) => {
-        if (code === 0) {
-          const duration = parseFloat(stdout.trim());
-          resolve(isNaN(duration) ? 0 : duration);
-        } else {
-          resolve(0);
-        }
-      });
-
-      proc.on('error', () => resolve(0));
-    });
-  }
-
   private processStreamToChannels(
     streamUrl: string,
     leftPath: string,
@@ -200,7 +640,7 @@ export class AudioProcessor {
       let stderr = '';
 
       proc.stderr.on('data', (data) => {
-        stderr += data.toString();
+        stderr = appendTail(stderr, data.toString());
         // Log progress
         const progress = data.toString().match(/time=(\d+:\d+:\d+)/);
         if (progress) {
@@ -221,25 +661,122 @@ export class AudioProcessor {
     });
   }
 
-  private processStreamToChannelsProgressive(
+  // Build a filter graph that mixes the source to the layout and splits it
+  // into one labelled mono stream per speaker
+  private buildChannelFilter(
+    channels: SpeakerChannel[],
+    layout: SpeakerLayout,
+    inputChannels: number,
+    settings: AudioSettings
+  ): string {
+    const { ffmpegLayout } = LAYOUTS[layout];
+    const layoutChannels = ffmpegLayout === 'stereo' ? 2 : ffmpegLayout === 'quad' ? 4 : 6;
+    const { eq, crossover, width } = settings;
+
+    // Down-mix (or pass through) sources with enough channels, up-mix the rest.
+    // EQ and width are applied to the stereo mix before any up-mix.
+    const passthrough = layoutChannels > 2 && inputChannels >= layoutChannels;
+    const eqFilters = eq
+      .filter((band) => band.gain !== 0)
+      .map((band) => `equalizer=f=${band.frequency}:t=q:w=${band.q}:g=${band.gain}`);
+    const mix = passthrough
+      ? [`aformat=channel_layouts=${ffmpegLayout}`, ...eqFilters]
+      : [
+          'aformat=channel_layouts=stereo',
+          ...eqFilters,
+          ...(width !== 1 ? [`extrastereo=m=${width}`] : []),
+          ...(layoutChannels > 2 ? [`surround=chl_out=${ffmpegLayout}`] : []),
+        ];
+
+    const splits = channels.map((_, i) => `[s${i}]`).join('');
+    const pans = channels.map((channel, i) => {
+      if (channel === 'lfe' && crossover.enabled) {
+        // Bass management: the lows of the mains, plus the source's own LFE
+        const lows = ffmpegLayout === '5.1' ? 'LFE+0.5*FL+0.5*FR' : '0.5*FL+0.5*FR';
+        return `[s${i}]pan=mono|c0=${lows},lowpass=f=${crossover.frequency}[${channel}]`;
+      }
+      if (channel === 'lfe' && ffmpegLayout === 'stereo') {
+        return `[s${i}]pan=mono|c0=0.5*FL+0.5*FR,lowpass=f=${LFE_CUTOFF_HZ}[${channel}]`;
+      }
+      const highpass = crossover.enabled ? `,highpass=f=${crossover.frequency}` : '';
+      return `[s${i}]pan=mono|c0=${CHANNEL_PAN[channel]}${highpass}[${channel}]`;
+    });
+
+    // ebur128 passes the audio through and logs a loudness summary when ffmpeg exits.
+    // Its per-frame measurements (ten a second) are logged below ffmpeg's log level.
+    return [`[0:a]${mix.join(',')},ebur128=peak=true:framelog=verbose,asplit=${channels.length}${splits}`, ...pans].join(';');
+  }
+
+  private async processStreamToChannelsProgressive(
     streamUrl: string,
-    leftPath: string,
-    rightPath: string
+    outputs: Array<{ channel: SpeakerChannel; path: string }>,
+    layout: SpeakerLayout,
+    job: {
+      settings: AudioSettings;
+      variants: AudioVariant[];
+      duration: number;
+      signal: AbortSignal;
+      onProgress?: (progress: ProcessingProgress) => void;
+      // Called once ffmpeg is gone, even after resolving early
+      onExit?: (success: boolean, loudness: Loudness | null) => void;
+    }
   ): Promise<void> {
+    const { settings, variants, duration, signal, onProgress, onExit } = job;
+
+    // Stereo-based layouts don't care what the source has, so skip the probe
+    const inputChannels = LAYOUTS[layout].ffmpegLayout === 'stereo'
+      ? 2
+      : await this.getChannelCount(streamUrl, signal);
+
+    let filter = this.buildChannelFilter(
+      outputs.map((o) => o.channel),
+      layout,
+      inputChannels,
+      settings
+    );
+    // Each channel feeds one encoder per variant
+    const label = (channel: SpeakerChannel, variant: AudioVariant) =>
+      variants.length > 1 ? `${channel}_${variant}` : channel;
+    if (variants.length > 1) {
+      filter += outputs
+        .map((o) => `;[${o.channel}]asplit=${variants.length}${variants.map((v) => `[${label(o.channel, v)}]`).join('')}`)
+        .join('');
+    }
+
     return new Promise((resolve, reject) => {
-      // Use filter_complex to split into both channels in one pass
+      // Use filter_complex to split into all channels in one pass. Each channel
+      // variant is encoded once and teed into the full file plus streamable
+      // segments (<file>_0000.<ext>...), listed in <file>.csv as they are closed.
       const args = [
         '-i', streamUrl,
-        '-filter_complex', '[0:a]pan=mono|c0=c0[left];[0:a]pan=mono|c0=c1[right]',
-        '-map', '[left]', '-b:a', '192k', leftPath,
-        '-map', '[right]', '-b:a', '192k', rightPath,
+        '-filter_complex', filter,
+        ...outputs.flatMap((o) => variants.flatMap((variant) => {
+          const { codec, bitrate, format } = VARIANTS[variant];
+          const file = getVariantFile(o.path, variant);
+          return [
+            '-map', `[${label(o.channel, variant)}]`,
+            '-c:a', codec,
+            ...(bitrate ? ['-b:a', `${bitrate}k`] : []),
+            '-f', 'tee',
+            `[f=${format}]${file}|${segmentOutput(file, variant)}`,
+          ];
+        })),
         '-y', // Overwrite
       ];
 
       console.log('[ffmpeg] Processing stream to channels (progressive)...');
-      const proc = spawn('ffmpeg', args);
+      const proc = spawn('ffmpeg', args, { signal });
       let stderr = '';
       let resolved = false;
+      let lastPercent = -1;
+
+      const reportProgress = (stage: ProcessingStage, bufferedSeconds: number) => {
+        const percent = duration > 0 ? Math.min(100, Math.floor((bufferedSeconds / duration) * 100)) : 0;
+        // ffmpeg reports several times a second, only pass on whole-percent changes
+        if (percent === lastPercent && stage !== 'finishing') return;
+        lastPercent = percent;
+        onProgress?.({ stage, percent, bufferedSeconds });
+      };
 
       // Check file size periodically to determine when buffer is ready
       const checkBuffer = setInterval(() => {
@@ -249,10 +786,8 @@ export class AudioProcessor {
         }
 
         try {
-          if (existsSync(leftPath) && existsSync(rightPath)) {
-            const leftSize = statSync(leftPath).size;
-            const rightSize = statSync(rightPath).size;
-            const minSize = Math.min(leftSize, rightSize);
+          if (outputs.every((o) => existsSync(o.path))) {
+            const minSize = Math.min(...outputs.map((o) => statSync(o.path).size));
 
             if (minSize >= MIN_BUFFER_SIZE) {
               console.log(`\n[ffmpeg] Buffer ready! (${Math.round(minSize / 1024)}KB) - playback can start`);
@@ -267,24 +802,28 @@ export class AudioProcessor {
       }, 200); // Check every 200ms
 
       proc.stderr.on('data', (data) => {
-        stderr += data.toString();
+        stderr = appendTail(stderr, data.toString());
         // Log progress
-        const progress = data.toString().match(/time=(\d+:\d+:\d+)/);
+        const progress = data.toString().match(/time=(\d+:\d+:\d+(?:\.\d+)?)/);
         if (progress && !resolved) {
           process.stdout.write(`\r[ffmpeg] Buffering: ${progress[1]}`);
+          reportProgress('buffering', parseFfmpegTime(progress[1]));
         } else if (progress) {
           process.stdout.write(`\r[ffmpeg] Processing: ${progress[1]}`);
+          reportProgress('finishing', parseFfmpegTime(progress[1]));
         }
       });
 
       proc.on('close', (code) => {
         clearInterval(checkBuffer);
+        onExit?.(code === 0, code === 0 ? parseLoudness(stderr) : null);
         console.log(''); // New line after progress
 
         if (!resolved) {
           // Process finished before buffer threshold - that's fine, resolve now
           if (code === 0) {
             console.log('[ffmpeg] Processing complete');
+            onProgress?.({ stage: 'finishing', percent: 100, bufferedSeconds: duration });
             resolve();
           } else {
             reject(new Error(`ffmpeg failed: ${stderr.slice(-500)}`));
@@ -293,6 +832,7 @@ export class AudioProcessor {
           // Already resolved, just log completion
           if (code === 0) {
             console.log('[ffmpeg] Background processing complete');
+            onProgress?.({ stage: 'finishing', percent: 100, bufferedSeconds: duration });
           } else {
             console.error('[ffmpeg] Background processing failed:', stderr.slice(-200));
           }
@@ -300,7 +840,10 @@ export class AudioProcessor {
       });
 
       proc.on('error', (err) => {
+        // A cancelled job is rejected from 'close', once ffmpeg has actually exited
+        if (err.name === 'AbortError') return;
         clearInterval(checkBuffer);
+        onExit?.(false, null);
         if (!resolved) {
           reject(err);
         }
@@ -330,7 +873,7 @@ export class AudioProcessor {
       let stderr = '';
 
       proc.stderr.on('data', (data) => {
-        stderr += data.toString();
+        stderr = appendTail(stderr, data.toString());
       });
 
       proc.on('close', (code) => {
@@ -345,7 +888,7 @@ export class AudioProcessor {
     });
   }
 
-  private getAudioDuration(filePath: string): Promise<number> {
+  private getAudioDuration(filePath: string, signal?: AbortSignal): Promise<number> {
     return new Promise((resolve, reject) => {
       const args = [
         '-v', 'error',
@@ -354,7 +897,7 @@ export class AudioProcessor {
         filePath,
       ];
 
-      const proc = spawn('ffprobe', args);
+      const proc = spawn('ffprobe', args, { signal });
       let stdout = '';
 
       proc.stdout.on('data', (data) => {
@@ -374,6 +917,33 @@ export class AudioProcessor {
     });
   }
 
+  private getChannelCount(input: string, signal?: AbortSignal): Promise<number> {
+    return new Promise((resolve) => {
+      const args = [
+        '-v', 'error',
+        '-select_streams', 'a:0',
+        '-show_entries', 'stream=channels',
+        '-of', 'default=noprint_wrappers=1:nokey=1',
+        input,
+      ];
+
+      const proc = spawn('ffprobe', args, { signal });
+      let stdout = '';
+
+      proc.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      proc.on('close', (code) => {
+        const channels = parseInt(stdout.trim());
+        // Assume stereo if the probe fails
+        resolve(code === 0 && !isNaN(channels) ? channels : 2);
+      });
+
+      proc.on('error', () => resolve(2));
+    });
+  }
+
   async cleanup(audioId: string): Promise<void> {
     const dir = path.join(this.audioDir, audioId);
     try {
@@ -383,3 +953,40 @@ export class AudioProcessor {
     }
   }
 }
+
+// tee slave that cuts a channel file's audio into segments next to it
+function segmentOutput(filePath: string, variant: AudioVariant): string {
+  const { format, extension } = VARIANTS[variant];
+  const base = filePath.slice(0, -path.extname(filePath).length);
+  const options = [
+    'f=segment',
+    `segment_format=${format}`,
+    `segment_time=${SEGMENT_SECONDS}`,
+    `segment_list=${base}.csv`,
+    'segment_list_type=csv',
+  ];
+  return `[${options.join(':')}]${base}_%04d.${extension}`;
+}
+
+function appendTail(tail: string, chunk: string): string {
+  const joined = tail + chunk;
+  return joined.length > STDERR_TAIL_CHARS ? joined.slice(-STDERR_TAIL_CHARS) : joined;
+}
+
+// Integrated loudness and true peak from the ebur128 filter's summary
+function parseLoudness(stderr: string): Loudness | null {
+  const summary = stderr.slice(stderr.lastIndexOf('Summary:'));
+  const integrated = summary.match(/I:\s+(-?[\d.]+) LUFS/);
+  const truePeak = summary.match(/True peak:\s+Peak:\s+(-?[\d.]+) dBFS/);
+  if (!integrated || !truePeak) return null;
+  return {
+    integrated: parseFloat(integrated[1]),
+    truePeak: parseFloat(truePeak[1]),
+  };
+}
+
+// Parse an ffmpeg "HH:MM:SS.ms" timestamp into seconds
+function parseFfmpegTime(time: string): number {
+  const [hours, minutes, seconds] = time.split(':').map(parseFloat);
+  return hours * 3600 + minutes * 60 + seconds;
+}
@@ -2,59 +2,180 @@ import { WebSocket } from 'ws';
 import { nanoid } from 'nanoid';
 import fs from 'fs';
 import path from 'path';
+import { LAYOUTS, DEFAULT_LAYOUT, SpeakerLayout, SpeakerChannel, ChannelFiles } from './layouts.js';
+import { PRIMARY_VARIANT, AudioVariant } from './variants.js';
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS, getOutputChannels } from './dsp.js';
+import { DriftStats, createDriftStats, DRIFT_SETTLE_MS } from './drift.js';
+import { ClockEstimate, ClockSample, createClockEstimate, addClockSample } from './clock.js';
+import type { AudioStatus, Loudness } from './AudioProcessor.js';
+import { Role, verifyPassword, hashToken } from './access.js';
+import { ServerMessage, validateServerMessage } from '../websocket/protocol.js';
 
-export type Channel = 'left' | 'right' | 'stereo';
+export type Channel = SpeakerChannel | 'stereo';
 
 export interface ClientInfo {
   id: string;
   websocket: WebSocket;
   assignedChannel: Channel;
-  latency: number;
+  clock: ClockEstimate;
   isReady: boolean;
+  deviceToken: string; // Identifies the device across reconnects, never sent to other clients
+  resumeToken: string; // Lets a dropped connection take this client back over, private like deviceToken
+  volume: number; // 0-100, last set with volume_request
+  role: Role;
+  drift: DriftStats;
+  heartbeat: Heartbeat;
+}
+
+// WebSocket-level liveness of a client
+export interface Heartbeat {
+  lastSeenAt: number; // Last message or pong
+  pingSentAt: number | null; // Outstanding ping, if any
+  rttMs: number | null; // Of the last answered ping
+  missed: number; // Pings in a row that went unanswered
+  reportedQuality: ConnectionQuality; // As last sent in client_list
+}
+
+export type ConnectionQuality = 'good' | 'fair' | 'poor';
+
+// A client whose connection dropped, kept for a while so it can resume
+interface DepartedClient {
+  client: ClientInfo;
+  departedAt: number;
+}
+
+// Calibration of one playback device, kept across sessions and reconnects
+export interface DeviceTrim {
+  latencyMs: number; // Extra output delay of the device (e.g. Bluetooth), played this much early
+  volumeDb: number; // Gain on top of the session volume
 }
 
 export interface AudioSource {
+  audioId: string; // Directory under audio/ holding the processed files
   url: string;
   title: string;
   duration: number;
-  files: {
-    stereo: string;
-    left: string;
-    right: string;
-  };
+  layout: SpeakerLayout; // Layout the files were split for
+  settingsKey: string; // DSP settings the files were rendered with
+  files: ChannelFiles;
+  variants: AudioVariant[];
+  status: AudioStatus;
+  loudness: Loudness | null;
+}
+
+export type QueueItemStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+// A track waiting to be played after the current audioSource
+export interface QueueItem {
+  id: string;
+  url: string;
+  status: QueueItemStatus;
+  audioSource: AudioSource | null; // Set once the track has been pre-processed
 }
 
 export interface PlaybackState {
   isPlaying: boolean;
   currentTime: number;
   lastSyncTimestamp: number;
+  version: number; // Bumped on every change, so stale requests and commands can be told apart
+}
+
+// An acoustic calibration in progress: every device plays a chirp in its own
+// time slot while the recorder listens with its microphone
+export interface CalibrationRun {
+  id: string;
+  recorderClientId: string;
+  slots: CalibrationSlot[];
+  timeout: NodeJS.Timeout;
+}
+
+// A play held until the devices have decoded the track
+export interface PendingPlay {
+  timer: NodeJS.Timeout; // Starts playback anyway at the timeout
+  waitForAll: boolean; // Waits for every channel even with the ready barrier off, for queue handoffs
+  startAt: number; // Starts no earlier than this server time, e.g. the end of the previous track
+}
+
+export interface CalibrationSlot {
+  clientId: string;
+  serverTimestamp: number; // When the device was told to play its chirp
 }
 
 export interface Session {
   id: string;
   createdAt: number;
+  lastActiveAt: number; // Last time a client joined or left
+  layout: SpeakerLayout;
+  normalize: boolean; // Level tracks to the same loudness with a client-side gain
+  readyBarrier: boolean; // Hold play until every channel in use has a device that has decoded the track
+  audioSettings: AudioSettings;
   audioSource: AudioSource | null;
+  queue: QueueItem[];
   playbackState: PlaybackState;
   clients: Map<string, ClientInfo>;
+  departedClients: Map<string, DepartedClient>; // By resume token
+  trackEndTimer: NodeJS.Timeout | null;
+  processingJobId: string | null; // Job loading the current track, for cancel_processing
+  calibration: CalibrationRun | null;
+  pendingPlay: PendingPlay | null;
+  hostKeyHash: string | null; // Of the key the server gave the host; the first to join is host if unset
+  passwordHash: string | null; // Needed to join, except for the host and resumed clients
+  guestRole: Role; // Role of devices joining after the host
 }
 
 // Persisted session data (without WebSocket connections)
 interface PersistedSession {
   id: string;
   createdAt: number;
+  lastActiveAt?: number;
+  layout?: SpeakerLayout;
+  normalize?: boolean;
+  readyBarrier?: boolean;
+  audioSettings?: AudioSettings;
   audioSource: AudioSource | null;
+  queue?: QueueItem[];
+  hostKeyHash?: string | null;
+  passwordHash?: string | null;
+  guestRole?: Role;
 }
 
 interface PersistedState {
   sessions: Record<string, PersistedSession>;
+  // Keyed by the hash of the device token
+  devices?: Record<string, DeviceTrim>;
 }
 
+export interface SessionManagerOptions {
+  // How long a session with no clients is kept, with and without a track loaded
+  idleTtlMs?: number;
+  emptyTtlMs?: number;
+}
+
+const DEFAULT_IDLE_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+const DEFAULT_EMPTY_TTL_MS = 60 * 1000; // 1 minute
+// How long a dropped client can reconnect as itself
+const RESUME_GRACE_MS = 2 * 60 * 1000;
+// Heartbeat round trips above these make a connection fair or poor
+const FAIR_RTT_MS = 150;
+const POOR_RTT_MS = 400;
+
+const DEFAULT_DEVICE_TRIM: DeviceTrim = { latencyMs: 0, volumeDb: 0 };
+const MAX_LATENCY_TRIM_MS = 1000;
+const MAX_VOLUME_TRIM_DB = 12;
+const TOKEN_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
 export class SessionManager {
   private sessions: Map<string, Session> = new Map();
+  // Keyed by hashToken(deviceToken), so the state file holds no usable tokens
+  private deviceTrims: Map<string, DeviceTrim> = new Map();
   private stateFilePath: string;
+  private idleTtlMs: number;
+  private emptyTtlMs: number;
 
-  constructor(dataDir: string) {
+  constructor(dataDir: string, options: SessionManagerOptions = {}) {
     this.stateFilePath = path.join(dataDir, 'sessions.json');
+    this.idleTtlMs = options.idleTtlMs ?? DEFAULT_IDLE_TTL_MS;
+    this.emptyTtlMs = options.emptyTtlMs ?? DEFAULT_EMPTY_TTL_MS;
     this.loadState();
   }
 
@@ -64,22 +185,51 @@ export class SessionManager {
         const data = fs.readFileSync(this.stateFilePath, 'utf-8');
         const state: PersistedState = JSON.parse(data);
 
-        // Restore sessions with audio sources
+        for (const [key, trim] of Object.entries(state.devices ?? {})) {
+          // Older state files keyed trims by the raw token
+          this.deviceTrims.set(TOKEN_HASH_PATTERN.test(key) ? key : hashToken(key), trim);
+        }
+
+        // Restore sessions with audio sources or queued tracks
         for (const [id, persisted] of Object.entries(state.sessions)) {
-          if (persisted.audioSource) {
+          // Processing was interrupted by the restart, so retry those tracks
+          const queue = (persisted.queue || []).map((item) => ({
+            ...item,
+            status: item.status === 'processing' ? 'pending' as const : item.status,
+            audioSource: item.audioSource && upgradeAudioSource(item.audioSource),
+          }));
+          if (persisted.audioSource || queue.length > 0) {
             const session: Session = {
               id: persisted.id,
               createdAt: persisted.createdAt,
-              audioSource: persisted.audioSource,
+              lastActiveAt: persisted.lastActiveAt ?? Date.now(),
+              layout: persisted.layout ?? DEFAULT_LAYOUT,
+              normalize: persisted.normalize ?? true,
+              readyBarrier: persisted.readyBarrier ?? false,
+              audioSettings: persisted.audioSettings ?? DEFAULT_AUDIO_SETTINGS,
+              // Sources saved before layouts existed were always split to stereo
+              audioSource: persisted.audioSource && upgradeAudioSource(persisted.audioSource),
+              queue,
               playbackState: {
                 isPlaying: false,
                 currentTime: 0,
                 lastSyncTimestamp: Date.now(),
+                version: 0,
               },
               clients: new Map(),
+              departedClients: new Map(),
+              trackEndTimer: null,
+              processingJobId: null,
+              calibration: null,
+              pendingPlay: null,
+              hostKeyHash: persisted.hostKeyHash ?? null,
+              passwordHash: persisted.passwordHash ?? null,
+              guestRole: persisted.guestRole ?? 'controller',
             };
             this.sessions.set(id, session);
-            console.log(`[SessionManager] Restored session ${id} with audio: ${persisted.audioSource.title}`);
+            console.log(
+              `[SessionManager] Restored session ${id} with audio: ${persisted.audioSource?.title ?? 'none'} (${queue.length} queued)`
+            );
           }
         }
       }
@@ -88,7 +238,8 @@ export class SessionManager {
     }
   }
 
-  private saveState(): void {
+  // Sessions in deletedIds are dropped from the file as well
+  private saveState(deletedIds: string[] = []): void {
     try {
       // Load existing state first to preserve sessions not in memory
       let state: PersistedState = { sessions: {} };
@@ -101,13 +252,29 @@ export class SessionManager {
         }
       }
 
+      for (const id of deletedIds) {
+        delete state.sessions[id];
+      }
+
+      // Every persisted trim was loaded at startup, so this drops raw-token keys
+      state.devices = Object.fromEntries(this.deviceTrims);
+
       // Merge current in-memory sessions (overwrites existing entries)
       for (const [id, session] of this.sessions) {
-        if (session.audioSource) {
+        if (session.audioSource || session.queue.length > 0) {
           state.sessions[id] = {
             id: session.id,
             createdAt: session.createdAt,
+            lastActiveAt: session.lastActiveAt,
+            layout: session.layout,
+            normalize: session.normalize,
+            readyBarrier: session.readyBarrier,
+            audioSettings: session.audioSettings,
             audioSource: session.audioSource,
+            queue: session.queue,
+            hostKeyHash: session.hostKeyHash,
+            passwordHash: session.passwordHash,
+            guestRole: session.guestRole,
           };
         }
       }
@@ -124,13 +291,28 @@ export class SessionManager {
     const session: Session = {
       id,
       createdAt: Date.now(),
+      lastActiveAt: Date.now(),
+      layout: DEFAULT_LAYOUT,
+      normalize: true,
+      readyBarrier: false,
+      audioSettings: DEFAULT_AUDIO_SETTINGS,
       audioSource: null,
+      queue: [],
       playbackState: {
         isPlaying: false,
         currentTime: 0,
         lastSyncTimestamp: Date.now(),
+        version: 0,
       },
       clients: new Map(),
+      departedClients: new Map(),
+      trackEndTimer: null,
+      processingJobId: null,
+      calibration: null,
+      pendingPlay: null,
+      hostKeyHash: null,
+      passwordHash: null,
+      guestRole: 'controller',
     };
     this.sessions.set(id, session);
     return session;
@@ -152,69 +334,379 @@ export class SessionManager {
     return session;
   }
 
-  addClient(sessionId: string, ws: WebSocket): ClientInfo {
+  // hostKey is the key from issueHostKey, if the device has one
+  addClient(sessionId: string, ws: WebSocket, deviceToken: string, hostKey?: string): ClientInfo {
     const session = this.getOrCreateSession(sessionId);
     const clientId = nanoid(6);
-
-    // Clean up stale clients (disconnected websockets)
-    const staleClients: string[] = [];
-    for (const [id, client] of session.clients) {
-      if (client.websocket.readyState !== 1) { // 1 = OPEN
-        staleClients.push(id);
-      }
-    }
-    for (const id of staleClients) {
-      session.clients.delete(id);
-      console.log(`[SessionManager] Cleaned up stale client ${id}`);
-    }
+    this.removeStaleClients(session);
 
     const channel = this.assignChannel(session);
+    const isHost = session.hostKeyHash === null || this.isHostKey(sessionId, hostKey);
 
     const client: ClientInfo = {
       id: clientId,
       websocket: ws,
       assignedChannel: channel,
-      latency: 0,
+      clock: createClockEstimate(),
       isReady: false,
+      deviceToken,
+      resumeToken: nanoid(24),
+      volume: 100,
+      role: isHost ? 'host' : session.guestRole,
+      drift: createDriftStats(),
+      heartbeat: createHeartbeat(),
     };
 
     session.clients.set(clientId, client);
+    session.lastActiveAt = Date.now();
     return client;
   }
 
-  removeClient(sessionId: string, clientId: string): void {
+  // Take a client back over on a new connection, keeping its id, channel,
+  // volume and ready state. Returns null if the token is unknown or expired.
+  resumeClient(sessionId: string, ws: WebSocket, resumeToken: string): ClientInfo | null {
     const session = this.sessions.get(sessionId);
-    if (!session) return;
+    if (!session) return null;
+    this.removeStaleClients(session);
 
-    session.clients.delete(clientId);
+    // The old connection may not have been noticed as dropped yet
+    let client = Array.from(session.clients.values()).find((c) => c.resumeToken === resumeToken);
+    if (!client) {
+      const departed = session.departedClients.get(resumeToken);
+      if (!departed) return null;
+      session.departedClients.delete(resumeToken);
+      client = departed.client;
+    }
+
+    const previous = client.websocket;
+    client.websocket = ws;
+    if (previous !== ws && previous.readyState === 1) previous.close();
+    client.drift = createDriftStats();
+    client.heartbeat = createHeartbeat();
+    session.clients.set(client.id, client);
+    session.lastActiveAt = Date.now();
+    return client;
+  }
+
+  // Whether a new client may join: sessions without a password, and the host,
+  // need none. Sessions that don't exist yet are created by the join.
+  async canJoin(sessionId: string, password?: string, hostKey?: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.passwordHash || this.isHostKey(sessionId, hostKey)) return true;
+    return password !== undefined && verifyPassword(password, session.passwordHash);
+  }
+
+  isHostKey(sessionId: string, hostKey?: string): boolean {
+    const hostKeyHash = this.sessions.get(sessionId)?.hostKeyHash;
+    return !!hostKeyHash && hostKey !== undefined && hashToken(hostKey) === hostKeyHash;
+  }
 
-    // Only clean up sessions WITHOUT audio after a delay
-    // Sessions with audio are kept forever (persisted)
-    if (session.clients.size === 0 && !session.audioSource) {
-      setTimeout(() => {
-        const s = this.sessions.get(sessionId);
-        if (s && s.clients.size === 0 && !s.audioSource) {
-          this.sessions.delete(sessionId);
+  // A new secret for the host to prove itself with when it joins again.
+  // Keys issued before stop working.
+  issueHostKey(sessionId: string): string {
+    const session = this.sessions.get(sessionId);
+    const hostKey = nanoid(32);
+    if (session) {
+      session.hostKeyHash = hashToken(hostKey);
+      this.saveState();
+    }
+    return hostKey;
+  }
+
+  // Takes the hash from hashPassword; null removes the password
+  setPasswordHash(sessionId: string, passwordHash: string | null): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.passwordHash = passwordHash;
+      this.saveState();
+    }
+  }
+
+  setGuestRole(sessionId: string, role: Role): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.guestRole = role;
+      this.saveState();
+    }
+  }
+
+  // Making a client host hands the role over from the current host, who
+  // becomes a controller. The new host needs a key from issueHostKey.
+  // Returns the clients whose role changed.
+  setClientRole(sessionId: string, clientId: string, role: Role): ClientInfo[] {
+    const session = this.sessions.get(sessionId);
+    const client = session?.clients.get(clientId);
+    if (!session || !client || client.role === role) return [];
+
+    const changed = [client];
+    if (role === 'host') {
+      for (const other of session.clients.values()) {
+        if (other.role === 'host') {
+          other.role = 'controller';
+          changed.push(other);
         }
-      }, 60000); // Keep empty sessions for 1 minute
+      }
     }
+    client.role = role;
+    return changed;
+  }
+
+  // The connected client holding a resume token, to identify HTTP requests
+  getClientByResumeToken(sessionId: string, resumeToken: string): ClientInfo | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+    return Array.from(session.clients.values()).find((c) => c.resumeToken === resumeToken);
+  }
+
+  // ws is the connection that closed; a client that has resumed on a newer one stays
+  removeClient(sessionId: string, clientId: string, ws?: WebSocket): void {
+    const session = this.sessions.get(sessionId);
+    const client = session?.clients.get(clientId);
+    if (!session || !client || (ws && client.websocket !== ws)) return;
+
+    session.clients.delete(clientId);
+    session.departedClients.set(client.resumeToken, { client, departedAt: Date.now() });
+
+    // Empty sessions are removed by the expiry sweep once their TTL runs out
+    session.lastActiveAt = Date.now();
+  }
+
+  // Move clients whose websocket closed unnoticed out of the session, and
+  // forget departed ones past the resume grace window
+  private removeStaleClients(session: Session): void {
+    const now = Date.now();
+    for (const [id, client] of session.clients) {
+      if (client.websocket.readyState !== 1) { // 1 = OPEN
+        session.clients.delete(id);
+        session.departedClients.set(client.resumeToken, { client, departedAt: now });
+        console.log(`[SessionManager] Cleaned up stale client ${id}`);
+      }
+    }
+    for (const [token, departed] of session.departedClients) {
+      if (now - departed.departedAt > RESUME_GRACE_MS) {
+        session.departedClients.delete(token);
+      }
+    }
+  }
+
+  // Every connected client, for the heartbeat
+  listClients(): Array<{ sessionId: string; client: ClientInfo }> {
+    const clients: Array<{ sessionId: string; client: ClientInfo }> = [];
+    for (const session of this.sessions.values()) {
+      for (const client of session.clients.values()) {
+        clients.push({ sessionId: session.id, client });
+      }
+    }
+    return clients;
+  }
+
+  // The client's connection ws showed signs of life; pong answers the last heartbeat ping
+  markSeen(sessionId: string, clientId: string, ws: WebSocket, pong = false): void {
+    const client = this.sessions.get(sessionId)?.clients.get(clientId);
+    if (!client || client.websocket !== ws) return;
+    const now = Date.now();
+    client.heartbeat.lastSeenAt = now;
+    if (pong && client.heartbeat.pingSentAt !== null) {
+      client.heartbeat.rttMs = now - client.heartbeat.pingSentAt;
+      client.heartbeat.pingSentAt = null;
+      client.heartbeat.missed = 0;
+    }
+  }
+
+  setClientVolume(sessionId: string, clientId: string, volume: number): void {
+    const client = this.sessions.get(sessionId)?.clients.get(clientId);
+    if (client) {
+      client.volume = volume;
+    }
+  }
+
+  // Sessions nobody has been connected to for longer than their TTL.
+  // Sessions without a track use the shorter empty-session TTL.
+  getExpiredSessionIds(now: number = Date.now()): string[] {
+    const expired: string[] = [];
+    for (const session of this.sessions.values()) {
+      if (session.clients.size > 0) continue;
+      const hasContent = !!session.audioSource || session.queue.length > 0;
+      // Clients that dropped may still resume
+      const ttl = Math.max(hasContent ? this.idleTtlMs : this.emptyTtlMs, session.departedClients.size > 0 ? RESUME_GRACE_MS : 0);
+      if (now - session.lastActiveAt > ttl) {
+        expired.push(session.id);
+      }
+    }
+    return expired;
+  }
+
+  // Remove a session from memory and from sessions.json, disconnecting any clients
+  deleteSession(sessionId: string): Session | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    if (session.trackEndTimer) {
+      clearTimeout(session.trackEndTimer);
+      session.trackEndTimer = null;
+    }
+    if (session.calibration) {
+      clearTimeout(session.calibration.timeout);
+      session.calibration = null;
+    }
+    if (session.pendingPlay) {
+      clearTimeout(session.pendingPlay.timer);
+      session.pendingPlay = null;
+    }
+    for (const client of session.clients.values()) {
+      if (client.websocket.readyState === 1) {
+        const message: ServerMessage = { type: 'error', code: 'session_deleted', message: 'Session was deleted' };
+        client.websocket.send(JSON.stringify(message));
+        client.websocket.close();
+      }
+    }
+    session.clients.clear();
+
+    this.sessions.delete(sessionId);
+    this.saveState([sessionId]);
+    return session;
+  }
+
+  listSessions(): Array<{
+    id: string;
+    createdAt: number;
+    lastActiveAt: number;
+    clientCount: number;
+    layout: SpeakerLayout;
+    title: string | null;
+    queueLength: number;
+    isPlaying: boolean;
+    passwordProtected: boolean;
+  }> {
+    return Array.from(this.sessions.values()).map((session) => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      lastActiveAt: session.lastActiveAt,
+      clientCount: session.clients.size,
+      layout: session.layout,
+      title: session.audioSource?.title ?? null,
+      queueLength: session.queue.length,
+      isPlaying: session.playbackState.isPlaying,
+      passwordProtected: session.passwordHash !== null,
+    }));
   }
 
   private assignChannel(session: Session): Channel {
-    // Count existing channel assignments
-    let leftCount = 0;
-    let rightCount = 0;
+    // Count existing assignments for each speaker in the layout
+    const speakers = LAYOUTS[session.layout].channels;
+    const counts = new Map<Channel, number>(speakers.map((channel) => [channel, 0]));
 
     for (const client of session.clients.values()) {
-      if (client.assignedChannel === 'left') leftCount++;
-      if (client.assignedChannel === 'right') rightCount++;
+      const count = counts.get(client.assignedChannel);
+      if (count !== undefined) counts.set(client.assignedChannel, count + 1);
     }
 
-    // Assign to balance channels, prioritizing left then right
-    if (leftCount === 0) return 'left';
-    if (rightCount === 0) return 'right';
-    // After first two clients, assign stereo (or could continue alternating)
-    return leftCount <= rightCount ? 'left' : 'right';
+    // Fill empty speakers first (in layout order), then keep them balanced
+    let best = speakers[0];
+    for (const channel of speakers) {
+      if (counts.get(channel)! < counts.get(best)!) best = channel;
+    }
+    return best;
+  }
+
+  // Switch the session's speaker layout and redistribute clients across it
+  setLayout(sessionId: string, layout: SpeakerLayout): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.layout = layout;
+    const clients = Array.from(session.clients.values());
+    for (const client of clients) {
+      session.clients.delete(client.id);
+    }
+    // Re-add in join order so assignment matches a fresh join
+    for (const client of clients) {
+      client.assignedChannel = this.assignChannel(session);
+      session.clients.set(client.id, client);
+    }
+    this.applySubwoofer(session);
+    this.saveState();
+  }
+
+  // Replace the session's DSP settings. The designated subwoofer device is
+  // moved to the LFE channel. Returns clients whose channel changed.
+  setAudioSettings(sessionId: string, settings: AudioSettings): ClientInfo[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+    session.audioSettings = settings;
+    const changed = this.applySubwoofer(session);
+    this.saveState();
+    return changed;
+  }
+
+  private applySubwoofer(session: Session): ClientInfo[] {
+    const changed: ClientInfo[] = [];
+    const { crossover } = session.audioSettings;
+    const available = getOutputChannels(session.layout, session.audioSettings);
+
+    for (const client of Array.from(session.clients.values())) {
+      const isSubwoofer = crossover.enabled && client.id === crossover.subwooferClientId;
+      if (isSubwoofer && client.assignedChannel !== 'lfe') {
+        client.assignedChannel = 'lfe';
+        changed.push(client);
+      } else if (client.assignedChannel !== 'stereo' && !available.includes(client.assignedChannel)) {
+        // The crossover's LFE went away with it
+        session.clients.delete(client.id);
+        client.assignedChannel = this.assignChannel(session);
+        session.clients.set(client.id, client);
+        changed.push(client);
+      }
+    }
+    return changed;
+  }
+
+  setNormalize(sessionId: string, normalize: boolean): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    session.normalize = normalize;
+    this.saveState();
+  }
+
+  setReadyBarrier(sessionId: string, enabled: boolean): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    session.readyBarrier = enabled;
+    this.saveState();
+  }
+
+  // Channels clients can be assigned in the session's current layout
+  getAvailableChannels(sessionId: string): Channel[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+    return [...getOutputChannels(session.layout, session.audioSettings), 'stereo'];
+  }
+
+  setClientChannel(sessionId: string, clientId: string, channel: Channel): ClientInfo | undefined {
+    const session = this.sessions.get(sessionId);
+    const client = session?.clients.get(clientId);
+    if (client) {
+      client.assignedChannel = channel;
+    }
+    return client;
+  }
+
+  // Move every client on channel a to channel b and vice versa.
+  // Returns the clients whose channel changed.
+  swapChannels(sessionId: string, a: Channel, b: Channel): ClientInfo[] {
+    const session = this.sessions.get(sessionId);
+    if (!session || a === b) return [];
+
+    const changed: ClientInfo[] = [];
+    for (const client of session.clients.values()) {
+      if (client.assignedChannel === a) {
+        client.assignedChannel = b;
+        changed.push(client);
+      } else if (client.assignedChannel === b) {
+        client.assignedChannel = a;
+        changed.push(client);
+      }
+    }
+    return changed;
   }
 
   setAudioSource(sessionId: string, audioSource: AudioSource): void {
@@ -225,22 +717,115 @@ export class SessionManager {
         isPlaying: false,
         currentTime: 0,
         lastSyncTimestamp: Date.now(),
+        version: session.playbackState.version + 1,
       };
       // Persist state when audio is loaded
       this.saveState();
     }
   }
 
+  enqueueTrack(sessionId: string, url: string): QueueItem | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    const item: QueueItem = {
+      id: nanoid(8),
+      url,
+      status: 'pending',
+      audioSource: null,
+    };
+    session.queue.push(item);
+    this.saveState();
+    return item;
+  }
+
+  removeFromQueue(sessionId: string, itemId: string): QueueItem | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    const index = session.queue.findIndex((item) => item.id === itemId);
+    if (index === -1) return undefined;
+
+    const [removed] = session.queue.splice(index, 1);
+    this.saveState();
+    return removed;
+  }
+
+  moveQueueItem(sessionId: string, itemId: string, toIndex: number): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    const fromIndex = session.queue.findIndex((item) => item.id === itemId);
+    if (fromIndex === -1) return false;
+
+    const target = Math.max(0, Math.min(Math.floor(toIndex), session.queue.length - 1));
+    const [item] = session.queue.splice(fromIndex, 1);
+    session.queue.splice(target, 0, item);
+    this.saveState();
+    return true;
+  }
+
+  updateQueueItem(sessionId: string, itemId: string, updates: Partial<Omit<QueueItem, 'id'>>): void {
+    const session = this.sessions.get(sessionId);
+    const item = session?.queue.find((i) => i.id === itemId);
+    if (item) {
+      Object.assign(item, updates);
+      this.saveState();
+    }
+  }
+
+  // First queued track that can still be played (failed tracks are skipped)
+  getNextQueueItem(sessionId: string): QueueItem | undefined {
+    const session = this.sessions.get(sessionId);
+    return session?.queue.find((item) => item.status !== 'failed');
+  }
+
+  // Make the next ready track the current audio source.
+  // Returns undefined if the next track hasn't finished pre-processing yet.
+  advanceQueue(sessionId: string): QueueItem | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    const index = session.queue.findIndex((item) => item.status !== 'failed');
+    const next = index === -1 ? undefined : session.queue[index];
+    if (!next || next.status !== 'ready' || !next.audioSource) return undefined;
+
+    // Drop the track along with any failed ones queued ahead of it
+    session.queue.splice(0, index + 1);
+    this.setAudioSource(sessionId, next.audioSource);
+    return next;
+  }
+
+  getQueue(sessionId: string): Array<{
+    id: string;
+    url: string;
+    title: string;
+    duration: number;
+    status: QueueItemStatus;
+  }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+
+    return session.queue.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.audioSource?.title ?? item.url,
+      duration: item.audioSource?.duration ?? 0,
+      status: item.status,
+    }));
+  }
+
   updatePlaybackState(
     sessionId: string,
-    updates: Partial<PlaybackState>
+    updates: Partial<Omit<PlaybackState, 'version'>>
   ): void {
     const session = this.sessions.get(sessionId);
     if (session) {
       session.playbackState = {
         ...session.playbackState,
         ...updates,
-        lastSyncTimestamp: Date.now(),
+        lastSyncTimestamp: updates.lastSyncTimestamp ?? Date.now(),
+        version: session.playbackState.version + 1,
       };
     }
   }
@@ -253,11 +838,43 @@ export class SessionManager {
     }
   }
 
-  setClientLatency(sessionId: string, clientId: string, latency: number): void {
+  addClockSample(sessionId: string, clientId: string, sample: ClockSample): void {
     const session = this.sessions.get(sessionId);
     const client = session?.clients.get(clientId);
     if (client) {
-      client.latency = latency;
+      addClockSample(client.clock, sample);
+    }
+  }
+
+  getDeviceTrim(client: ClientInfo): DeviceTrim {
+    return this.deviceTrims.get(hashToken(client.deviceToken)) ?? DEFAULT_DEVICE_TRIM;
+  }
+
+  // Update a client's device calibration. Returns the new trim, or null if the client is gone.
+  setDeviceTrim(sessionId: string, clientId: string, update: Partial<DeviceTrim>): DeviceTrim | null {
+    const client = this.sessions.get(sessionId)?.clients.get(clientId);
+    if (!client) return null;
+
+    const current = this.getDeviceTrim(client);
+    const trim: DeviceTrim = {
+      latencyMs: clampTrim(update.latencyMs ?? current.latencyMs, 0, MAX_LATENCY_TRIM_MS),
+      volumeDb: clampTrim(update.volumeDb ?? current.volumeDb, -MAX_VOLUME_TRIM_DB, MAX_VOLUME_TRIM_DB),
+    };
+    this.deviceTrims.set(hashToken(client.deviceToken), trim);
+    this.saveState();
+    return trim;
+  }
+
+  // Playback (re)starts at startsAt: clients begin at normal rate and their
+  // position reports are ignored until they have settled
+  resetDrift(sessionId: string, startsAt: number, clientId?: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    for (const client of session.clients.values()) {
+      if (clientId && client.id !== clientId) continue;
+      client.drift.driftMs = null;
+      client.drift.playbackRate = 1;
+      client.drift.settleUntil = startsAt + DRIFT_SETTLE_MS;
     }
   }
 
@@ -270,13 +887,29 @@ export class SessionManager {
     return true;
   }
 
+  // Clients holding up the ready barrier: those on a channel no ready client plays
+  getUnreadyClients(sessionId: string): ClientInfo[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+    const covered = new Set<Channel>();
+    for (const client of session.clients.values()) {
+      if (client.isReady) covered.add(client.assignedChannel);
+    }
+    return Array.from(session.clients.values()).filter((c) => !covered.has(c.assignedChannel));
+  }
+
   broadcastToSession(
     sessionId: string,
-    message: object,
+    message: ServerMessage,
     excludeClientId?: string
   ): void {
     const session = this.sessions.get(sessionId);
     if (!session) return;
+    const invalid = validateServerMessage(message);
+    if (invalid) {
+      console.error(`[SessionManager] Not broadcasting invalid message ${invalid}`);
+      return;
+    }
 
     const data = JSON.stringify(message);
     for (const client of session.clients.values()) {
@@ -286,7 +919,18 @@ export class SessionManager {
     }
   }
 
-  getClientList(sessionId: string): Array<{ id: string; channel: Channel; ready: boolean }> {
+  getClientList(sessionId: string): Array<{
+    id: string;
+    channel: Channel;
+    ready: boolean;
+    volume: number;
+    role: Role;
+    lastSeenAt: number;
+    quality: ConnectionQuality;
+    trim: DeviceTrim;
+    drift: { driftMs: number | null; playbackRate: number; resyncs: number };
+    clock: { offsetMs: number; rttMs: number; uncertaintyMs: number | null; confidence: number };
+  }> {
     const session = this.sessions.get(sessionId);
     if (!session) return [];
 
@@ -294,9 +938,76 @@ export class SessionManager {
       id: c.id,
       channel: c.assignedChannel,
       ready: c.isReady,
+      volume: c.volume,
+      role: c.role,
+      lastSeenAt: c.heartbeat.lastSeenAt,
+      quality: getConnectionQuality(c),
+      trim: this.getDeviceTrim(c),
+      drift: {
+        driftMs: c.drift.driftMs === null ? null : Math.round(c.drift.driftMs),
+        playbackRate: c.drift.playbackRate,
+        resyncs: c.drift.resyncs,
+      },
+      clock: {
+        offsetMs: Math.round(c.clock.offsetMs),
+        rttMs: Math.round(c.clock.rttMs),
+        uncertaintyMs: Number.isFinite(c.clock.uncertaintyMs) ? Math.round(c.clock.uncertaintyMs) : null,
+        confidence: Math.round(c.clock.confidence * 100) / 100,
+      },
     }));
   }
 
+  // Number of sessions using each processed audio directory (current track or queue)
+  getAudioReferences(): Map<string, number> {
+    const references = new Map<string, number>();
+    for (const session of this.sessions.values()) {
+      const audioIds = new Set<string>();
+      if (session.audioSource) audioIds.add(session.audioSource.audioId);
+      for (const item of session.queue) {
+        if (item.audioSource) audioIds.add(item.audioSource.audioId);
+      }
+      for (const audioId of audioIds) {
+        references.set(audioId, (references.get(audioId) ?? 0) + 1);
+      }
+    }
+    return references;
+  }
+
+  // A current or queued track processed into the given audio directory
+  findAudioSource(audioId: string): AudioSource | undefined {
+    for (const session of this.sessions.values()) {
+      if (session.audioSource?.audioId === audioId) return session.audioSource;
+      const item = session.queue.find((i) => i.audioSource?.audioId === audioId);
+      if (item?.audioSource) return item.audioSource;
+    }
+    return undefined;
+  }
+
+  // Record that background encoding of an audio id finished or died, along
+  // with the loudness measured once it's complete.
+  // Returns the ids of sessions that use it.
+  setAudioStatus(audioId: string, status: AudioStatus, loudness?: Loudness | null): string[] {
+    const affected: string[] = [];
+    for (const session of this.sessions.values()) {
+      let uses = false;
+      if (session.audioSource?.audioId === audioId) {
+        session.audioSource.status = status;
+        if (loudness) session.audioSource.loudness = loudness;
+        uses = true;
+      }
+      for (const item of session.queue) {
+        if (item.audioSource?.audioId !== audioId) continue;
+        item.audioSource.status = status;
+        if (loudness) item.audioSource.loudness = loudness;
+        if (status === 'failed') item.status = 'failed';
+        uses = true;
+      }
+      if (uses) affected.push(session.id);
+    }
+    if (affected.length > 0) this.saveState();
+    return affected;
+  }
+
   // Get client by channel (for sending volume commands)
   getClientByChannel(sessionId: string, channel: Channel): ClientInfo | undefined {
     const session = this.sessions.get(sessionId);
@@ -311,3 +1022,34 @@ export class SessionManager {
   }
 
 }
+
+// Fill in fields that sessions.json files from older versions don't have
+function upgradeAudioSource(source: AudioSource): AudioSource {
+  return {
+    ...source,
+    // Sources were always split to stereo before layouts existed
+    layout: source.layout ?? DEFAULT_LAYOUT,
+    // Files live at /audio/<audioId>/<channel>.mp3
+    audioId: source.audioId ?? source.files.stereo.split('/')[2],
+    // Unknown until the files are checked on restore
+    status: source.status ?? 'buffering',
+    variants: source.variants ?? [PRIMARY_VARIANT],
+    settingsKey: source.settingsKey ?? 'flat',
+    loudness: source.loudness ?? null,
+  };
+}
+
+function createHeartbeat(): Heartbeat {
+  return { lastSeenAt: Date.now(), pingSentAt: null, rttMs: null, missed: 0, reportedQuality: 'good' };
+}
+
+export function getConnectionQuality(client: ClientInfo): ConnectionQuality {
+  const { missed, rttMs } = client.heartbeat;
+  if (missed > 0 || (rttMs !== null && rttMs > POOR_RTT_MS)) return 'poor';
+  if (rttMs !== null && rttMs > FAIR_RTT_MS) return 'fair';
+  return 'good';
+}
+
+function clampTrim(value: number, min: number, max: number): number {
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : 0;
+}
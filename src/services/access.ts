@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+// What a client may do in its session. The device that created the session is
+// its host; everyone else joins with the session's guest role.
+export type Role = 'host' | 'controller' | 'listener';
+
+export type Permission =
+  | 'playback' // Play, pause and seek
+  | 'tracks' // Load, upload, queue and cancel tracks
+  | 'volume' // Per-channel volume
+  | 'settings' // Layout, sound settings, other devices' channels and trims, calibration
+  | 'manage'; // Roles and the session password
+
+export const ROLES: Role[] = ['host', 'controller', 'listener'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  host: ['playback', 'tracks', 'volume', 'settings', 'manage'],
+  controller: ['playback', 'tracks', 'volume', 'settings'],
+  listener: [],
+};
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+// Off the event loop: scrypt is deliberately slow
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Salted scrypt hash, stored as "salt:hash" in hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(password, salt, KEY_BYTES);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+// For server-issued secrets like host keys, which are random enough not to need a salt
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+const FREE_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// Failures are forgotten once a key has been quiet this long
+const FORGET_AFTER_MS = 15 * 60 * 1000;
+
+interface AttemptRecord {
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number;
+}
+
+// Backs off password guesses per key, e.g. a remote address or a session: after
+// FREE_ATTEMPTS failures every further one doubles the wait before the next try
+export class AttemptLimiter {
+  private records: Map<string, AttemptRecord> = new Map();
+
+  // How long the key must wait before trying again, 0 if it may now
+  getWaitMs(key: string, now = Date.now()): number {
+    const record = this.records.get(key);
+    return record ? Math.max(0, record.blockedUntil - now) : 0;
+  }
+
+  fail(key: string, now = Date.now()): void {
+    this.prune(now);
+    const record = this.records.get(key) ?? { failures: 0, lastFailureAt: now, blockedUntil: 0 };
+    record.failures++;
+    record.lastFailureAt = now;
+    if (record.failures >= FREE_ATTEMPTS) {
+      const backoff = BASE_BACKOFF_MS * 2 ** (record.failures - FREE_ATTEMPTS);
+      record.blockedUntil = now + Math.min(backoff, MAX_BACKOFF_MS);
+    }
+    this.records.set(key, record);
+  }
+
+  reset(key: string): void {
+    this.records.delete(key);
+  }
+
+  private prune(now: number): void {
+    for (const [key, record] of this.records) {
+      if (now - record.lastFailureAt > FORGET_AFTER_MS && now >= record.blockedUntil) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,77 @@
+// One ping/pong exchange, NTP style: client send, server receive, server send
+// and client receive times, each in the clock of the side that took it
+export interface ClockSample {
+  clientSent: number;
+  serverReceived: number;
+  serverSent: number;
+  clientReceived: number;
+}
+
+// Server-side estimate of a client's clock
+export interface ClockEstimate {
+  offsetMs: number; // Client clock minus server clock
+  rttMs: number;
+  uncertaintyMs: number; // Bound on the offset error: half the RTT plus jitter
+  confidence: number; // 0-1, from the number of good samples and the uncertainty
+  samples: Array<{ offsetMs: number; rttMs: number }>; // Most recent last
+}
+
+const MAX_SAMPLES = 16;
+// Samples slower than the fastest by more than this are queued behind other
+// traffic, so their offset is skewed by asymmetric delay
+const RTT_OUTLIER_FACTOR = 1.5;
+const RTT_OUTLIER_SLACK_MS = 5;
+// Good samples needed, and uncertainty allowed, for full confidence
+const CONFIDENT_SAMPLES = 4;
+const CONFIDENT_UNCERTAINTY_MS = 10;
+// Samples outside these are made up or broken, and would wreck the estimate.
+// A sample is sent with the ping after its exchange, which throttled tabs delay.
+const MAX_SAMPLE_AGE_MS = 5 * 60 * 1000;
+const MAX_RTT_MS = 10 * 1000;
+const MAX_OFFSET_MS = 24 * 60 * 60 * 1000;
+
+export function createClockEstimate(): ClockEstimate {
+  return { offsetMs: 0, rttMs: 0, uncertaintyMs: Infinity, confidence: 0, samples: [] };
+}
+
+// Add an exchange and recompute the estimate from the low-RTT samples.
+// Implausible samples are dropped, leaving the estimate as it was.
+export function addClockSample(estimate: ClockEstimate, sample: ClockSample): void {
+  // The server times are our own, so they must be from a recent exchange
+  const { serverReceived, serverSent } = sample;
+  const now = Date.now();
+  if (!(serverReceived <= serverSent && serverSent <= now && now - serverReceived <= MAX_SAMPLE_AGE_MS)) return;
+
+  const rttMs = (sample.clientReceived - sample.clientSent) - (serverSent - serverReceived);
+  if (!(rttMs >= 0 && rttMs <= MAX_RTT_MS)) return; // Negative if the clock stepped mid-exchange
+  const offsetMs = ((sample.clientSent - serverReceived) + (sample.clientReceived - serverSent)) / 2;
+  if (!(Math.abs(offsetMs) <= MAX_OFFSET_MS)) return;
+
+  estimate.samples.push({ offsetMs, rttMs });
+  if (estimate.samples.length > MAX_SAMPLES) estimate.samples.shift();
+
+  const minRtt = Math.min(...estimate.samples.map((s) => s.rttMs));
+  const good = estimate.samples.filter((s) => s.rttMs <= minRtt * RTT_OUTLIER_FACTOR + RTT_OUTLIER_SLACK_MS);
+  const offsets = good.map((s) => s.offsetMs).sort((a, b) => a - b);
+  const jitterMs = (offsets[offsets.length - 1] - offsets[0]) / 2;
+
+  estimate.offsetMs = median(offsets);
+  estimate.rttMs = median(good.map((s) => s.rttMs).sort((a, b) => a - b));
+  estimate.uncertaintyMs = minRtt / 2 + jitterMs;
+  estimate.confidence =
+    Math.min(1, good.length / CONFIDENT_SAMPLES) *
+    Math.min(1, CONFIDENT_UNCERTAINTY_MS / Math.max(estimate.uncertaintyMs, 1));
+}
+
+export function toClientTime(estimate: ClockEstimate, serverTime: number): number {
+  return serverTime + estimate.offsetMs;
+}
+
+export function toServerTime(estimate: ClockEstimate, clientTime: number): number {
+  return clientTime - estimate.offsetMs;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,56 @@
+// Playback drift of one client against the session clock, from its position reports
+export interface DriftStats {
+  driftMs: number | null; // Smoothed; positive when the client is ahead
+  playbackRate: number; // Rate the client was last told to play at
+  resyncs: number; // Hard re-seeks so far
+  settleUntil: number; // Reports before this server time are ignored
+}
+
+export type DriftCorrection =
+  | { kind: 'rate'; playbackRate: number }
+  | { kind: 'seek' };
+
+// Below the deadband drift is left alone; above the hard threshold the client
+// re-seeks, in between its rate is nudged to close the gap over the window
+const DEADBAND_MS = 10;
+const HARD_RESYNC_MS = 100;
+const CORRECTION_WINDOW_MS = 4000;
+const MAX_RATE_DEVIATION = 0.005;
+const SMOOTHING = 0.5;
+// Time after a (re)start before a client's reports are meaningful
+export const DRIFT_SETTLE_MS = 1500;
+
+export function createDriftStats(): DriftStats {
+  return { driftMs: null, playbackRate: 1, resyncs: 0, settleUntil: 0 };
+}
+
+// Offset of the reported position from the expected one, in ms. Both wrap at
+// the track duration since clients loop the track.
+export function measureDrift(position: number, expected: number, duration: number): number {
+  let drift = position - expected;
+  if (duration > 0) {
+    drift = ((drift % duration) + duration) % duration;
+    if (drift > duration / 2) drift -= duration;
+  }
+  return drift * 1000;
+}
+
+// Fold a new measurement into the stats and decide how to correct it, if at all
+export function updateDrift(stats: DriftStats, driftMs: number): DriftCorrection | null {
+  stats.driftMs = stats.driftMs === null ? driftMs : stats.driftMs + SMOOTHING * (driftMs - stats.driftMs);
+  const drift = stats.driftMs;
+
+  if (Math.abs(drift) >= HARD_RESYNC_MS) {
+    return { kind: 'seek' };
+  }
+
+  let playbackRate = 1;
+  if (Math.abs(drift) >= DEADBAND_MS) {
+    const deviation = Math.min(MAX_RATE_DEVIATION, Math.abs(drift) / CORRECTION_WINDOW_MS);
+    // Ahead clients slow down, behind clients speed up
+    playbackRate = 1 - Math.sign(drift) * deviation;
+  }
+  playbackRate = Math.round(playbackRate * 10000) / 10000;
+  if (playbackRate === stats.playbackRate) return null;
+  return { kind: 'rate', playbackRate };
+}
@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { LAYOUTS, SpeakerLayout, SpeakerChannel } from './layouts.js';
+
+// One peaking filter of the parametric EQ
+export interface EqBand {
+  frequency: number; // Hz
+  gain: number; // dB
+  q: number;
+}
+
+// Session-wide processing applied while a track is split into channels
+export interface AudioSettings {
+  eq: EqBand[];
+  // Bass management: mains are high-passed and the lows go to an LFE channel,
+  // played by the designated subwoofer device
+  crossover: {
+    enabled: boolean;
+    frequency: number; // Hz
+    subwooferClientId: string | null;
+  };
+  width: number; // Stereo width: 0 = mono, 1 = unchanged, 2 = widest
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  eq: [],
+  crossover: { enabled: false, frequency: 120, subwooferClientId: null },
+  width: 1,
+};
+
+const MAX_EQ_BANDS = 8;
+
+// Key for audio rendered with these settings. Only the parts that change the
+// rendered audio count, so settings that sound the same share processed files.
+export function getSettingsKey(settings: AudioSettings): string {
+  const rendered = {
+    eq: settings.eq.filter((band) => band.gain !== 0),
+    crossover: settings.crossover.enabled ? settings.crossover.frequency : null,
+    width: settings.width,
+  };
+  if (rendered.eq.length === 0 && rendered.crossover === null && rendered.width === 1) {
+    return 'flat';
+  }
+  const hash = crypto.createHash('sha1').update(JSON.stringify(rendered)).digest('hex');
+  return `dsp-${hash.slice(0, 10)}`;
+}
+
+// Speaker outputs to render: the layout's, plus an LFE for the crossover
+export function getOutputChannels(layout: SpeakerLayout, settings: AudioSettings): SpeakerChannel[] {
+  const { channels } = LAYOUTS[layout];
+  if (settings.crossover.enabled && !channels.includes('lfe')) {
+    return [...channels, 'lfe'];
+  }
+  return channels;
+}
+
+// Validate and clamp settings sent by a client. Returns null if malformed.
+export function parseAudioSettings(value: unknown): AudioSettings | null {
+  if (!value || typeof value !== 'object') return null;
+  const input = value as Partial<AudioSettings>;
+
+  const eq = input.eq ?? [];
+  if (!Array.isArray(eq) || eq.length > MAX_EQ_BANDS) return null;
+  const bands: EqBand[] = [];
+  for (const band of eq) {
+    if (!isFiniteNumber(band?.frequency) || !isFiniteNumber(band?.gain) || !isFiniteNumber(band?.q)) {
+      return null;
+    }
+    bands.push({
+      frequency: clamp(band.frequency, 20, 20000),
+      gain: clamp(band.gain, -24, 24),
+      q: clamp(band.q, 0.1, 10),
+    });
+  }
+
+  const crossover = input.crossover ?? DEFAULT_AUDIO_SETTINGS.crossover;
+  const frequency = crossover.frequency ?? DEFAULT_AUDIO_SETTINGS.crossover.frequency;
+  if (!isFiniteNumber(frequency)) return null;
+
+  const width = input.width ?? DEFAULT_AUDIO_SETTINGS.width;
+  if (!isFiniteNumber(width)) return null;
+
+  return {
+    eq: bands,
+    crossover: {
+      enabled: crossover.enabled === true,
+      frequency: clamp(frequency, 40, 250),
+      subwooferClientId: typeof crossover.subwooferClientId === 'string' ? crossover.subwooferClientId : null,
+    },
+    width: clamp(width, 0, 2),
+  };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
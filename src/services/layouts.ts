@@ -0,0 +1,37 @@
+export type SpeakerLayout = '2.0' | '2.1' | 'quad' | '5.1';
+
+export type SpeakerChannel =
+  | 'left'
+  | 'right'
+  | 'center'
+  | 'lfe'
+  | 'surround_left'
+  | 'surround_right';
+
+export const SPEAKER_CHANNELS: SpeakerChannel[] = ['left', 'right', 'center', 'lfe', 'surround_left', 'surround_right'];
+
+// Processed mono file per speaker (only the layout's channels are present),
+// plus the URL used by clients without a speaker role
+export type ChannelFiles = { stereo: string } & Partial<Record<SpeakerChannel, string>>;
+
+interface LayoutDefinition {
+  ffmpegLayout: string; // Layout the source is up/down-mixed to before splitting
+  channels: SpeakerChannel[]; // Speaker roles, in assignment order
+}
+
+export const LAYOUTS: Record<SpeakerLayout, LayoutDefinition> = {
+  '2.0': { ffmpegLayout: 'stereo', channels: ['left', 'right'] },
+  // LFE is derived from the stereo mix, not taken from the source
+  '2.1': { ffmpegLayout: 'stereo', channels: ['left', 'right', 'lfe'] },
+  'quad': { ffmpegLayout: 'quad', channels: ['left', 'right', 'surround_left', 'surround_right'] },
+  '5.1': {
+    ffmpegLayout: '5.1',
+    channels: ['left', 'right', 'center', 'lfe', 'surround_left', 'surround_right'],
+  },
+};
+
+export const DEFAULT_LAYOUT: SpeakerLayout = '2.0';
+
+export function isSpeakerLayout(value: unknown): value is SpeakerLayout {
+  return typeof value === 'string' && value in LAYOUTS;
+}
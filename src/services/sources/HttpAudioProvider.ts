@@ -0,0 +1,78 @@
+import path from 'path';
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+import { SourceProvider, SourceMetadata } from './SourceProvider.js';
+
+const AUDIO_EXTENSIONS = ['.mp3', '.flac', '.wav', '.ogg', '.m4a', '.aac', '.opus'];
+
+// Loopback, private, link-local and other non-public addresses. IPv4-mapped
+// IPv6 addresses are checked against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface HttpAudioProviderOptions {
+  // Allow links to loopback and LAN hosts. Off by default, since anyone in a
+  // session could otherwise make the server fetch from its own network.
+  allowPrivateHosts?: boolean;
+}
+
+// Direct links to audio files, fed straight into ffmpeg
+export class HttpAudioProvider implements SourceProvider {
+  readonly name = 'Direct audio URL';
+  private allowPrivateHosts: boolean;
+
+  constructor(options: HttpAudioProviderOptions = {}) {
+    this.allowPrivateHosts = options.allowPrivateHosts ?? false;
+  }
+
+  matches(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+      return AUDIO_EXTENSIONS.includes(path.extname(parsed.pathname).toLowerCase());
+    } catch {
+      return false;
+    }
+  }
+
+  async getSourceId(url: string): Promise<string> {
+    return `url:${url}`;
+  }
+
+  async getMetadata(url: string): Promise<SourceMetadata> {
+    const { pathname } = new URL(url);
+    const filename = decodeURIComponent(path.basename(pathname));
+    return {
+      title: path.basename(filename, path.extname(filename)),
+      duration: 0, // Probed from the stream
+    };
+  }
+
+  async resolveStream(url: string): Promise<string> {
+    if (!this.allowPrivateHosts) {
+      await assertPublicHost(new URL(url).hostname);
+    }
+    return url;
+  }
+}
+
+async function assertPublicHost(hostname: string): Promise<void> {
+  // URL keeps the brackets around IPv6 literals
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true });
+  for (const { address, family } of addresses) {
+    if (PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')) {
+      throw new Error(`Refusing to fetch audio from a private address: ${hostname}`);
+    }
+  }
+}
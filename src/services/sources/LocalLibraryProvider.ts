@@ -0,0 +1,50 @@
+import path from 'path';
+import { existsSync } from 'fs';
+import { SourceProvider, SourceMetadata } from './SourceProvider.js';
+import { hashFile } from './hash.js';
+
+const LIBRARY_PREFIX = 'library://';
+
+// Files from a server-side music directory, addressed as library://<relative path>
+export class LocalLibraryProvider implements SourceProvider {
+  readonly name = 'Local library';
+  private libraryDir: string;
+
+  constructor(libraryDir: string) {
+    this.libraryDir = path.resolve(libraryDir);
+  }
+
+  matches(url: string): boolean {
+    return url.startsWith(LIBRARY_PREFIX);
+  }
+
+  async getSourceId(url: string): Promise<string> {
+    return hashFile(await this.resolveStream(url));
+  }
+
+  async getMetadata(url: string): Promise<SourceMetadata> {
+    const filePath = this.toFilePath(url);
+    return {
+      title: path.basename(filePath, path.extname(filePath)),
+      duration: 0, // Probed from the file
+    };
+  }
+
+  async resolveStream(url: string): Promise<string> {
+    const filePath = this.toFilePath(url);
+    if (!existsSync(filePath)) {
+      throw new Error(`Library file not found: ${url}`);
+    }
+    return filePath;
+  }
+
+  private toFilePath(url: string): string {
+    const relative = decodeURIComponent(url.slice(LIBRARY_PREFIX.length));
+    const filePath = path.resolve(this.libraryDir, relative);
+    // Don't let library:// URLs escape the library directory
+    if (!filePath.startsWith(this.libraryDir + path.sep)) {
+      throw new Error(`Invalid library path: ${url}`);
+    }
+    return filePath;
+  }
+}
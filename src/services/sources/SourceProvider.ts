@@ -0,0 +1,22 @@
+export interface SourceMetadata {
+  title: string;
+  duration: number; // Seconds, 0 if the provider can't tell without probing the stream
+}
+
+// A place audio can come from (YouTube, a direct file URL, a local library...)
+export interface SourceProvider {
+  // Human-readable name, shown to users in error messages
+  readonly name: string;
+
+  matches(url: string): boolean;
+
+  // Stable identity of the audio behind a URL (video ID, file hash...), so
+  // different URLs for the same audio share processed files
+  getSourceId(url: string): Promise<string>;
+
+  // Both receive the job's signal so cancelling can kill any helper processes
+  getMetadata(url: string, signal?: AbortSignal): Promise<SourceMetadata>;
+
+  // Resolve to an input ffmpeg can read (remote URL or local path)
+  resolveStream(url: string, signal?: AbortSignal): Promise<string>;
+}
@@ -0,0 +1,19 @@
+import { SourceProvider } from './SourceProvider.js';
+
+export class SourceRegistry {
+  private providers: SourceProvider[] = [];
+
+  // Providers are matched in registration order, first match wins
+  register(provider: SourceProvider): void {
+    this.providers.push(provider);
+    console.log(`[SourceRegistry] Registered provider: ${provider.name}`);
+  }
+
+  find(url: string): SourceProvider | undefined {
+    return this.providers.find((provider) => provider.matches(url));
+  }
+
+  getProviderNames(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
+}
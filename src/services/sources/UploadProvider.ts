@@ -0,0 +1,58 @@
+import path from 'path';
+import { existsSync } from 'fs';
+import { SourceProvider, SourceMetadata } from './SourceProvider.js';
+import { hashFile } from './hash.js';
+
+const UPLOAD_PREFIX = 'upload://';
+
+// Files uploaded over HTTP, addressed as upload://<id>/<original filename>.
+// Lets uploads be re-processed (e.g. for another layout) like any other source.
+export class UploadProvider implements SourceProvider {
+  readonly name = 'Uploaded file';
+  private uploadDir: string;
+
+  constructor(uploadDir: string) {
+    this.uploadDir = uploadDir;
+  }
+
+  static toUrl(id: string, filename: string): string {
+    return `${UPLOAD_PREFIX}${id}/${encodeURIComponent(filename)}`;
+  }
+
+  getFilePath(id: string, filename: string): string {
+    return path.join(this.uploadDir, `${id}${path.extname(filename).toLowerCase()}`);
+  }
+
+  matches(url: string): boolean {
+    return url.startsWith(UPLOAD_PREFIX);
+  }
+
+  async getSourceId(url: string): Promise<string> {
+    return hashFile(await this.resolveStream(url));
+  }
+
+  async getMetadata(url: string): Promise<SourceMetadata> {
+    const { filename } = this.parse(url);
+    return {
+      title: path.basename(filename, path.extname(filename)),
+      duration: 0, // Probed from the file
+    };
+  }
+
+  async resolveStream(url: string): Promise<string> {
+    const { id, filename } = this.parse(url);
+    const filePath = this.getFilePath(id, filename);
+    if (!existsSync(filePath)) {
+      throw new Error(`Uploaded file not found: ${url}`);
+    }
+    return filePath;
+  }
+
+  private parse(url: string): { id: string; filename: string } {
+    const [id, encodedName] = url.slice(UPLOAD_PREFIX.length).split('/');
+    if (!id || !encodedName || !/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid upload URL: ${url}`);
+    }
+    return { id, filename: decodeURIComponent(encodedName) };
+  }
+}
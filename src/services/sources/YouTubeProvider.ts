@@ -0,0 +1,33 @@
+import { SourceProvider, SourceMetadata } from './SourceProvider.js';
+import { getTitle, getDuration, getStreamUrl } from './ytdlp.js';
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'youtu.be', 'm.youtube.com'];
+
+export class YouTubeProvider implements SourceProvider {
+  readonly name = 'YouTube';
+
+  matches(url: string): boolean {
+    try {
+      return YOUTUBE_HOSTS.includes(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  async getSourceId(url: string): Promise<string> {
+    const parsed = new URL(url);
+    const videoId = parsed.hostname === 'youtu.be'
+      ? parsed.pathname.slice(1)
+      : parsed.searchParams.get('v') ?? parsed.pathname.match(/^\/(?:shorts|embed|live)\/([\w-]+)/)?.[1];
+    return videoId ? `youtube:${videoId}` : `url:${url}`;
+  }
+
+  async getMetadata(url: string, signal?: AbortSignal): Promise<SourceMetadata> {
+    const [title, duration] = await Promise.all([getTitle(url, signal), getDuration(url, signal)]);
+    return { title, duration };
+  }
+
+  resolveStream(url: string, signal?: AbortSignal): Promise<string> {
+    return getStreamUrl(url, signal);
+  }
+}
@@ -0,0 +1,39 @@
+import { SourceProvider, SourceMetadata } from './SourceProvider.js';
+import { getTitle, getDuration, getStreamUrl } from './ytdlp.js';
+
+// Sites other than YouTube that yt-dlp can extract audio from
+const DEFAULT_HOSTS = ['soundcloud.com', 'bandcamp.com', 'vimeo.com', 'mixcloud.com'];
+
+export class YtDlpProvider implements SourceProvider {
+  readonly name = 'yt-dlp sites';
+  private hosts: string[];
+
+  constructor(hosts: string[] = DEFAULT_HOSTS) {
+    this.hosts = hosts;
+  }
+
+  matches(url: string): boolean {
+    try {
+      const { hostname } = new URL(url);
+      // Match the host itself and any subdomain (e.g. artist.bandcamp.com)
+      return this.hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+    } catch {
+      return false;
+    }
+  }
+
+  async getSourceId(url: string): Promise<string> {
+    // Ignore tracking query strings and www. prefixes
+    const { hostname, pathname } = new URL(url);
+    return `ytdlp:${hostname.replace(/^www\./, '')}${pathname.replace(/\/$/, '')}`;
+  }
+
+  async getMetadata(url: string, signal?: AbortSignal): Promise<SourceMetadata> {
+    const [title, duration] = await Promise.all([getTitle(url, signal), getDuration(url, signal)]);
+    return { title, duration };
+  }
+
+  resolveStream(url: string, signal?: AbortSignal): Promise<string> {
+    return getStreamUrl(url, signal);
+  }
+}
@@ -0,0 +1,13 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+
+// Content hash used as the source identity of local files
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(`sha256:${hash.digest('hex')}`))
+      .on('error', reject);
+  });
+}
@@ -0,0 +1,70 @@
+import { spawn } from 'child_process';
+
+export function getTitle(url: string, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve) => {
+    const proc = spawn('yt-dlp', ['--print', 'title', '--no-playlist', url], { signal });
+    let stdout = '';
+
+    proc.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout.trim() || 'Unknown');
+      } else {
+        resolve('Unknown');
+      }
+    });
+
+    proc.on('error', () => resolve('Unknown'));
+  });
+}
+
+export function getDuration(url: string, signal?: AbortSignal): Promise<number> {
+  return new Promise((resolve) => {
+    const proc = spawn('yt-dlp', ['--print', 'duration', '--no-playlist', url], { signal });
+    let stdout = '';
+
+    proc.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      if (code === 0) {
+        const duration = parseFloat(stdout.trim());
+        resolve(isNaN(duration) ? 0 : duration);
+      } else {
+        resolve(0);
+      }
+    });
+
+    proc.on('error', () => resolve(0));
+  });
+}
+
+export function getStreamUrl(url: string, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn('yt-dlp', ['-g', '-f', 'bestaudio', '--no-playlist', url], { signal });
+    let stdout = '';
+    let stderr = '';
+
+    proc.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    proc.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      if (code === 0 && stdout.trim()) {
+        resolve(stdout.trim().split('\n')[0]); // Take first URL if multiple
+      } else {
+        reject(new Error(`Failed to get stream URL: ${stderr}`));
+      }
+    });
+
+    proc.on('error', reject);
+  });
+}
@@ -0,0 +1,34 @@
+// Encodings produced for every channel. 'mp3' is the primary file (buffer
+// checks, verification, clients that decode nothing else); the others are
+// optional extras clients can pick from based on capability and bandwidth.
+export type AudioVariant = 'opus_low' | 'opus_medium' | 'mp3' | 'opus_high' | 'flac';
+
+export interface VariantDefinition {
+  codec: string; // ffmpeg encoder
+  bitrate: number | null; // kbps, null for lossless
+  format: string; // ffmpeg muxer for the file and its segments
+  extension: string;
+  mimeType: string; // For the client's canPlayType() check
+}
+
+// In order of increasing quality
+export const VARIANTS: Record<AudioVariant, VariantDefinition> = {
+  opus_low: { codec: 'libopus', bitrate: 48, format: 'ogg', extension: 'opus', mimeType: 'audio/ogg; codecs=opus' },
+  opus_medium: { codec: 'libopus', bitrate: 96, format: 'ogg', extension: 'opus', mimeType: 'audio/ogg; codecs=opus' },
+  mp3: { codec: 'libmp3lame', bitrate: 192, format: 'mp3', extension: 'mp3', mimeType: 'audio/mpeg' },
+  opus_high: { codec: 'libopus', bitrate: 160, format: 'ogg', extension: 'opus', mimeType: 'audio/ogg; codecs=opus' },
+  flac: { codec: 'flac', bitrate: null, format: 'flac', extension: 'flac', mimeType: 'audio/flac' },
+};
+
+export const PRIMARY_VARIANT: AudioVariant = 'mp3';
+
+export function isAudioVariant(value: unknown): value is AudioVariant {
+  return typeof value === 'string' && value in VARIANTS;
+}
+
+// Path or URL of a variant, next to the channel's primary file:
+// /audio/<id>/left.mp3 -> /audio/<id>/left-opus_low.opus
+export function getVariantFile(primaryFile: string, variant: AudioVariant): string {
+  if (variant === PRIMARY_VARIANT) return primaryFile;
+  return primaryFile.replace(/\.mp3$/, `-${variant}.${VARIANTS[variant].extension}`);
+}
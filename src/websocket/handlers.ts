@@ -1,69 +1,161 @@
 import { FastifyInstance } from 'fastify';
 import { WebSocket } from 'ws';
-import { SessionManager, ClientInfo, Session } from '../services/SessionManager.js';
-import { AudioProcessor } from '../services/AudioProcessor.js';
+import { nanoid } from 'nanoid';
+import {
+  SessionManager,
+  ClientInfo,
+  Session,
+  AudioSource,
+  Channel,
+  CalibrationSlot,
+  getConnectionQuality,
+} from '../services/SessionManager.js';
+import {
+  AudioProcessor,
+  ProcessOptions,
+  ProcessingCancelledError,
+  AudioStatus,
+  Loudness,
+} from '../services/AudioProcessor.js';
+import { DEFAULT_LAYOUT } from '../services/layouts.js';
+import { VARIANTS, PRIMARY_VARIANT, AudioVariant } from '../services/variants.js';
+import { parseAudioSettings, getSettingsKey } from '../services/dsp.js';
+import { measureDrift, updateDrift } from '../services/drift.js';
+import { toClientTime, toServerTime } from '../services/clock.js';
+import { Permission, hasPermission, hashPassword, AttemptLimiter } from '../services/access.js';
+import {
+  PROTOCOL_VERSION,
+  ServerMessage,
+  ClientMessage,
+  CalibrationResult,
+  AudioVariantInfo,
+  validateClientMessage,
+  validateServerMessage,
+} from './protocol.js';
+
+// Loudness tracks are normalized to, and the true peak the gain may not push past
+const NORMALIZATION_TARGET_LUFS = -16;
+const MAX_TRUE_PEAK_DBTP = -1;
+
+// Calibration timing: time for every device to get ready, the gap between
+// chirps (longer than any output delay we expect), and how long to wait for results
+const CALIBRATION_LEAD_MS = 1500;
+const CALIBRATION_SLOT_MS = 1000;
+const CALIBRATION_RESULT_TIMEOUT_MS = 15000;
+const MAX_CALIBRATION_OFFSET_MS = 1000;
+
+// Scheduled actions start this far ahead: enough for the slowest ready
+// client's round trip and clock uncertainty, plus time to start its source
+const SOURCE_START_MS = 100;
+const UNSYNCED_LEAD_MS = 500; // For clients without a clock estimate yet
+const MIN_LEAD_MS = 150;
+const MAX_LEAD_MS = 2000;
+
+// How long a play held by the ready barrier waits before starting anyway
+const READY_BARRIER_TIMEOUT_MS = 10000;
+// A queued track takes over this long before the current one ends, so devices
+// that preloaded it can report ready in time to start it at the exact end
+const HANDOFF_LEAD_MS = MAX_LEAD_MS + 1000;
+
+// Wrong passwords back off per remote address and per session, however many
+// connections they come over
+const joinLimiter = new AttemptLimiter();
+// Addresses with a password being checked, so guesses can't run in parallel
+const guessingFrom = new Set<string>();
+// How long a guess that arrives while another from its address is checked should wait
+const GUESS_IN_FLIGHT_RETRY_MS = 1000;
 
 interface ClientContext {
   sessionId: string;
   clientId: string;
 }
 
-type ServerMessage =
-  | { type: 'session_joined'; sessionId: string; clientId: string; channel: string }
-  | { type: 'audio_ready'; audioUrl: string; duration: number; title: string }
-  | { type: 'audio_loading'; url: string }
-  | { type: 'play'; startTime: number; serverTimestamp: number }
-  | { type: 'pause'; currentTime: number; serverTimestamp: number }
-  | { type: 'seek'; targetTime: number; serverTimestamp: number }
-  | { type: 'pong'; serverTimestamp: number; clientTimestamp: number }
-  | { type: 'client_list'; clients: Array<{ id: string; channel: string; ready: boolean }> }
-  | { type: 'volume_change'; volume: number }
-  | { type: 'error'; message: string };
-
-type ClientMessage =
-  | { type: 'join_session'; sessionId: string }
-  | { type: 'submit_link'; url: string }
-  | { type: 'ready' }
-  | { type: 'play_request' }
-  | { type: 'pause_request' }
-  | { type: 'seek_request'; targetTime: number }
-  | { type: 'volume_request'; channel: 'left' | 'right'; volume: number }
-  | { type: 'ping'; clientTimestamp: number };
+export interface HeartbeatOptions {
+  intervalMs: number; // How often every client is pinged
+  timeoutMs: number; // Clients silent for longer are evicted
+}
 
 export function setupWebSocket(
   app: FastifyInstance,
   sessionManager: SessionManager,
-  audioProcessor: AudioProcessor
+  audioProcessor: AudioProcessor,
+  heartbeat: HeartbeatOptions
 ) {
+  const heartbeatTimer = setInterval(() => checkHeartbeats(sessionManager, heartbeat.timeoutMs), heartbeat.intervalMs);
+  heartbeatTimer.unref();
+  app.addHook('onClose', async () => clearInterval(heartbeatTimer));
+
   app.get('/ws', { websocket: true }, (socket, req) => {
     const ws = socket as unknown as WebSocket;
     let ctx: ClientContext | null = null;
 
+    ws.on('pong', () => {
+      if (ctx) sessionManager.markSeen(ctx.sessionId, ctx.clientId, ws, true);
+    });
+
+    const ip = req.ip;
     ws.on('message', async (data) => {
+      if (ctx) sessionManager.markSeen(ctx.sessionId, ctx.clientId, ws);
+      let parsed: unknown;
       try {
-        const message = JSON.parse(data.toString()) as ClientMessage;
-        // Log all incoming messages (except ping for noise reduction)
-        if (message.type !== 'ping') {
-          console.log(`[WS] Received message: ${message.type} from ${ctx?.clientId || 'unknown'}`);
+        parsed = JSON.parse(data.toString());
+      } catch {
+        send(ws, { type: 'error', code: 'invalid_json', message: 'Messages must be JSON' });
+        return;
+      }
+
+      const invalid = validateClientMessage(parsed);
+      if (invalid) {
+        console.log(`[WS] Rejected message from ${ctx?.clientId || 'unknown'}: ${invalid.message}`);
+        send(ws, { type: 'error', ...invalid });
+        return;
+      }
+      const message = parsed as ClientMessage;
+      if (!ctx && message.type !== 'join_session') {
+        send(ws, { type: 'error', code: 'not_joined', message: 'Join a session first', request: message.type });
+        return;
+      }
+      const permission = ctx && getRequiredPermission(message, ctx.clientId);
+      if (permission) {
+        // A client that's no longer in its session has no role to act with
+        const role = sessionManager.getSession(ctx!.sessionId)?.clients.get(ctx!.clientId)?.role;
+        if (!role || !hasPermission(role, permission)) {
+          console.log(`[WS] Refused ${message.type} from ${role ?? 'departed client'} ${ctx!.clientId}`);
+          send(ws, {
+            type: 'error',
+            code: 'forbidden',
+            message: role ? `A ${role} can't do that in this session` : 'Not in this session any more',
+            request: message.type,
+          });
+          return;
         }
-        await handleMessage(ws, message, ctx, sessionManager, audioProcessor, (newCtx) => {
+      }
+
+      // Log all incoming messages (except periodic ones for noise reduction)
+      if (message.type !== 'ping' && message.type !== 'position_report') {
+        console.log(`[WS] Received message: ${message.type} from ${ctx?.clientId || 'unknown'}`);
+      }
+      try {
+        await handleMessage(ws, ip, message, ctx, sessionManager, audioProcessor, (newCtx) => {
           ctx = newCtx;
         });
       } catch (err) {
         console.error('WebSocket message error:', err);
-        send(ws, { type: 'error', message: 'Invalid message format' });
+        send(ws, { type: 'error', code: 'internal_error', message: 'Failed to handle message', request: message.type });
       }
     });
 
     ws.on('close', () => {
       if (ctx) {
-        sessionManager.removeClient(ctx.sessionId, ctx.clientId);
+        sessionManager.removeClient(ctx.sessionId, ctx.clientId, ws);
 
         // Notify remaining clients of updated list
         sessionManager.broadcastToSession(ctx.sessionId, {
           type: 'client_list',
           clients: sessionManager.getClientList(ctx.sessionId),
         });
+        // A held play may have been waiting on this client
+        checkReadyBarrier(ctx.sessionId, sessionManager, audioProcessor);
       }
     });
   });
@@ -71,6 +163,7 @@ export function setupWebSocket(
 
 async function handleMessage(
   ws: WebSocket,
+  ip: string,
   message: ClientMessage,
   ctx: ClientContext | null,
   sessionManager: SessionManager,
@@ -79,35 +172,126 @@ async function handleMessage(
 ) {
   switch (message.type) {
     case 'join_session': {
-      const { sessionId } = message;
-      const client = sessionManager.addClient(sessionId, ws);
+      const { sessionId, protocolVersion = PROTOCOL_VERSION } = message;
+      if (protocolVersion !== PROTOCOL_VERSION) {
+        send(ws, {
+          type: 'error',
+          code: 'unsupported_protocol',
+          message: `Protocol version ${protocolVersion} is not supported, this server speaks version ${PROTOCOL_VERSION}`,
+          field: 'protocolVersion',
+          request: message.type,
+        });
+        return;
+      }
+      // Clients that don't send a token get calibration for this connection only
+      const deviceToken = isDeviceToken(message.deviceToken) ? message.deviceToken : nanoid(16);
+      const resumed = typeof message.resumeToken === 'string'
+        ? sessionManager.resumeClient(sessionId, ws, message.resumeToken)
+        : null;
+      // Resumed clients already got in once
+      let passwordHash: string | null = null;
+      if (!resumed) {
+        // Only guesses at an existing password are limited; those are what runs a scrypt
+        const guessing = message.password !== undefined
+          && !!sessionManager.getSession(sessionId)?.passwordHash
+          && !sessionManager.isHostKey(sessionId, message.hostKey);
+        const limitKeys = [`ip:${ip}`, `session:${sessionId}`];
+        if (guessing) {
+          const waitMs = Math.max(...limitKeys.map((key) => joinLimiter.getWaitMs(key)));
+          if (waitMs > 0 || guessingFrom.has(ip)) {
+            console.log(`[WS] Rate limited join to session ${sessionId} from ${ip}`);
+            send(ws, {
+              type: 'error',
+              code: 'rate_limited',
+              message: waitMs > 0 ? 'Too many wrong passwords, try again later' : 'Another password from this address is being checked',
+              retryAfterMs: waitMs || GUESS_IN_FLIGHT_RETRY_MS,
+              request: message.type,
+            });
+            return;
+          }
+          guessingFrom.add(ip);
+        }
+        try {
+          // Hashed before the session exists, so it's never open without its password
+          if (!sessionManager.getSession(sessionId) && message.password !== undefined) {
+            passwordHash = await hashPassword(message.password);
+          }
+          const allowed = await sessionManager.canJoin(sessionId, message.password, message.hostKey);
+          if (guessing && allowed) {
+            joinLimiter.reset(limitKeys[0]);
+          } else if (guessing) {
+            for (const key of limitKeys) joinLimiter.fail(key);
+          }
+          if (!allowed) {
+            console.log(`[WS] Refused join to session ${sessionId}: ${message.password === undefined ? 'no' : 'wrong'} password`);
+            send(ws, {
+              type: 'error',
+              code: 'unauthorized',
+              message: message.password === undefined ? 'This session needs a password' : 'Wrong password',
+              field: 'password',
+              request: message.type,
+            });
+            return;
+          }
+        } finally {
+          if (guessing) guessingFrom.delete(ip);
+        }
+      }
+      const isNewSession = !sessionManager.getSession(sessionId);
+      const client = resumed ?? sessionManager.addClient(sessionId, ws, deviceToken, message.hostKey);
+      if (isNewSession && passwordHash) {
+        sessionManager.setPasswordHash(sessionId, passwordHash);
+      }
+      // A host that got the role without its key (by creating the session) is given one to come back with
+      const hostKey = !resumed && client.role === 'host' && !sessionManager.isHostKey(sessionId, message.hostKey)
+        ? sessionManager.issueHostKey(sessionId)
+        : undefined;
       const newCtx = { sessionId, clientId: client.id };
       setCtx(newCtx);
 
-      console.log(`[WS] Client ${client.id} joined session ${sessionId} as ${client.assignedChannel}`);
+      console.log(`[WS] Client ${client.id} ${resumed ? 'resumed' : 'joined'} session ${sessionId} as ${client.role} on ${client.assignedChannel}`);
 
       // Send join confirmation
       send(ws, {
         type: 'session_joined',
+        protocolVersion: PROTOCOL_VERSION,
         sessionId,
         clientId: client.id,
         channel: client.assignedChannel,
+        layout: sessionManager.getSession(sessionId)!.layout,
+        normalize: sessionManager.getSession(sessionId)!.normalize,
+        readyBarrier: sessionManager.getSession(sessionId)!.readyBarrier,
+        audioSettings: sessionManager.getSession(sessionId)!.audioSettings,
+        trim: sessionManager.getDeviceTrim(client),
+        playbackVersion: sessionManager.getSession(sessionId)!.playbackState.version,
+        resumeToken: client.resumeToken,
+        resumed: !!resumed,
+        volume: client.volume,
+        role: client.role,
+        passwordProtected: sessionManager.getSession(sessionId)!.passwordHash !== null,
+        guestRole: sessionManager.getSession(sessionId)!.guestRole,
+        hostKey,
       });
 
       // Send current audio state if exists
       const session = sessionManager.getSession(sessionId);
       console.log(`[WS] Session ${sessionId} has audioSource:`, !!session?.audioSource);
-      if (session?.audioSource) {
-        const audioUrl = getAudioUrlForChannel(session, client.assignedChannel);
+      if (session?.audioSource?.status === 'failed') {
+        // Never hand out a truncated file; it's either being processed again or gone
+        const { url, title } = session.audioSource;
+        send(ws, session.processingJobId
+          ? { type: 'audio_loading', url }
+          : { type: 'error', code: 'audio_unavailable', message: `Audio for "${title}" is unavailable, please load it again` });
+      } else if (session?.audioSource) {
         console.log(`[WS] Sending audio_ready to new client: ${session.audioSource.title}`);
-        send(ws, {
-          type: 'audio_ready',
-          audioUrl,
-          duration: session.audioSource.duration,
-          title: session.audioSource.title,
-        });
+        sendAudioReady(session, client);
       }
 
+      send(ws, {
+        type: 'queue_update',
+        queue: sessionManager.getQueue(sessionId),
+      });
+
       // Broadcast updated client list
       sessionManager.broadcastToSession(sessionId, {
         type: 'client_list',
@@ -120,9 +304,9 @@ async function handleMessage(
       if (!ctx) return;
       const { url } = message;
 
-      // Validate YouTube URL
-      if (!isYouTubeUrl(url)) {
-        send(ws, { type: 'error', message: 'Only YouTube URLs are supported' });
+      // Validate URL against registered source providers
+      if (!audioProcessor.acceptsUrl(url)) {
+        send(ws, { type: 'error', code: 'unsupported_url', message: unsupportedUrlMessage(audioProcessor), field: 'url', request: message.type });
         return;
       }
 
@@ -132,37 +316,225 @@ async function handleMessage(
         url,
       });
 
+      const job = createLoadJob(ctx.sessionId, url, sessionManager);
       try {
-        // Process the audio
-        const processed = await audioProcessor.processYouTubeUrl(url);
+        // Process the audio for the session's speaker layout
+        const layout = sessionManager.getSession(ctx.sessionId)?.layout ?? DEFAULT_LAYOUT;
+        const processed = await audioProcessor.processUrl(url, layout, job);
 
-        // Update session
-        sessionManager.setAudioSource(ctx.sessionId, {
+        // Update session and send each client its channel
+        loadAudioSource(ctx.sessionId, {
           url,
           title: processed.title,
           duration: processed.duration,
+          layout: processed.layout,
+          settingsKey: processed.settingsKey,
+          audioId: processed.id,
           files: processed.files,
-        });
-
-        // Reset ready state for all clients
-        const session = sessionManager.getSession(ctx.sessionId);
-        if (session) {
-          for (const client of session.clients.values()) {
-            client.isReady = false;
-            // Send each client their channel-specific audio URL
-            const audioUrl = getAudioUrlForChannel(session, client.assignedChannel);
-            sendTo(client, {
-              type: 'audio_ready',
-              audioUrl,
-              duration: processed.duration,
-              title: processed.title,
-            });
-          }
-        }
+          variants: processed.variants,
+          status: processed.status,
+          loudness: processed.loudness,
+        }, sessionManager, audioProcessor);
       } catch (err) {
+        if (err instanceof ProcessingCancelledError) return;
         console.error('Audio processing error:', err);
-        send(ws, { type: 'error', message: 'Failed to process audio' });
+        endLoadJob(ctx.sessionId, job, sessionManager);
+        send(ws, { type: 'error', code: 'processing_failed', message: 'Failed to process audio', request: message.type });
+      }
+      break;
+    }
+
+    case 'cancel_processing': {
+      if (!ctx) return;
+      const session = sessionManager.getSession(ctx.sessionId);
+      const jobId = session?.processingJobId;
+      if (!session || !jobId || !audioProcessor.cancel(jobId)) return;
+
+      session.processingJobId = null;
+      console.log(`[WS] Client ${ctx.clientId} cancelled processing in session ${ctx.sessionId}`);
+      sessionManager.broadcastToSession(ctx.sessionId, { type: 'processing_cancelled' });
+      break;
+    }
+
+    case 'enqueue_track': {
+      if (!ctx) return;
+      const { url } = message;
+
+      if (!audioProcessor.acceptsUrl(url)) {
+        send(ws, { type: 'error', code: 'unsupported_url', message: unsupportedUrlMessage(audioProcessor), field: 'url', request: message.type });
+        return;
+      }
+
+      const item = sessionManager.enqueueTrack(ctx.sessionId, url);
+      if (!item) return;
+      console.log(`[WS] Track ${item.id} queued in session ${ctx.sessionId}: ${url}`);
+
+      broadcastQueue(ctx.sessionId, sessionManager);
+      await prepareNextTrack(ctx.sessionId, sessionManager, audioProcessor);
+      break;
+    }
+
+    case 'remove_track': {
+      if (!ctx) return;
+      const removed = sessionManager.removeFromQueue(ctx.sessionId, message.itemId);
+      if (!removed) return;
+
+      broadcastQueue(ctx.sessionId, sessionManager);
+      // The removed track may have been the one being prepared
+      await prepareNextTrack(ctx.sessionId, sessionManager, audioProcessor);
+      break;
+    }
+
+    case 'move_track': {
+      if (!ctx) return;
+      const { itemId, toIndex } = message;
+      if (!sessionManager.moveQueueItem(ctx.sessionId, itemId, toIndex)) return;
+
+      broadcastQueue(ctx.sessionId, sessionManager);
+      // A different track may now be next in line
+      await prepareNextTrack(ctx.sessionId, sessionManager, audioProcessor);
+      break;
+    }
+
+    case 'set_layout': {
+      if (!ctx) return;
+      const { layout } = message;
+      const session = sessionManager.getSession(ctx.sessionId);
+      if (!session || session.layout === layout) return;
+
+      sessionManager.setLayout(ctx.sessionId, layout);
+      console.log(`[WS] Session ${ctx.sessionId} switched to ${layout} layout`);
+
+      sessionManager.broadcastToSession(ctx.sessionId, { type: 'layout_update', layout });
+      sessionManager.broadcastToSession(ctx.sessionId, {
+        type: 'client_list',
+        clients: sessionManager.getClientList(ctx.sessionId),
+      });
+
+      // Tracks split for the old layout have to be processed again
+      const reloaded = await rerenderSession(ctx.sessionId, ws, sessionManager, audioProcessor);
+      if (!reloaded) {
+        // Files already match, clients just need their new channel
+        sendAudioReadyToAll(session);
+      }
+
+      await prepareNextTrack(ctx.sessionId, sessionManager, audioProcessor);
+      break;
+    }
+
+    case 'audio_settings': {
+      if (!ctx) return;
+      const settings = parseAudioSettings(message.settings);
+      if (!settings) {
+        send(ws, { type: 'error', code: 'invalid_field', message: 'Invalid audio settings', field: 'settings', request: message.type });
+        return;
+      }
+
+      const session = sessionManager.getSession(ctx.sessionId);
+      if (!session) return;
+
+      const changed = sessionManager.setAudioSettings(ctx.sessionId, settings);
+      console.log(`[WS] Session ${ctx.sessionId} audio settings: ${getSettingsKey(settings)}`);
+
+      sessionManager.broadcastToSession(ctx.sessionId, { type: 'audio_settings_update', settings });
+      sessionManager.broadcastToSession(ctx.sessionId, {
+        type: 'client_list',
+        clients: sessionManager.getClientList(ctx.sessionId),
+      });
+
+      const reloaded = await rerenderSession(ctx.sessionId, ws, sessionManager, audioProcessor);
+      if (!reloaded) {
+        // Same render, only devices moved to or off the subwoofer need new files
+        for (const client of changed) sendAudioReady(session, client);
+      }
+
+      await prepareNextTrack(ctx.sessionId, sessionManager, audioProcessor);
+      break;
+    }
+
+    case 'set_normalization': {
+      if (!ctx) return;
+      const session = sessionManager.getSession(ctx.sessionId);
+      const normalize = message.enabled === true;
+      if (!session || session.normalize === normalize) return;
+
+      sessionManager.setNormalize(ctx.sessionId, normalize);
+      console.log(`[WS] Session ${ctx.sessionId} normalization ${normalize ? 'on' : 'off'}`);
+      sessionManager.broadcastToSession(ctx.sessionId, { type: 'normalization_update', normalize });
+      sessionManager.broadcastToSession(ctx.sessionId, { type: 'track_gain', gainDb: getTrackGain(session) });
+      break;
+    }
+
+    case 'set_ready_barrier': {
+      if (!ctx) return;
+      const session = sessionManager.getSession(ctx.sessionId);
+      const enabled = message.enabled === true;
+      if (!session || session.readyBarrier === enabled) return;
+
+      sessionManager.setReadyBarrier(ctx.sessionId, enabled);
+      console.log(`[WS] Session ${ctx.sessionId} ready barrier ${enabled ? 'on' : 'off'}`);
+      sessionManager.broadcastToSession(ctx.sessionId, { type: 'ready_barrier_update', enabled });
+      checkReadyBarrier(ctx.sessionId, sessionManager, audioProcessor);
+      break;
+    }
+
+    case 'set_channel': {
+      if (!ctx) return;
+      const { channel } = message;
+      const clientId = message.clientId ?? ctx.clientId;
+
+      if (!sessionManager.getAvailableChannels(ctx.sessionId).includes(channel)) {
+        send(ws, {
+          type: 'error',
+          code: 'unavailable_channel',
+          message: `Channel ${channel} is not part of this layout`,
+          field: 'channel',
+          request: message.type,
+        });
+        return;
       }
+
+      const session = sessionManager.getSession(ctx.sessionId);
+      const client = sessionManager.setClientChannel(ctx.sessionId, clientId, channel);
+      if (!session || !client) return;
+      console.log(`[WS] Client ${clientId} assigned to ${channel} by ${ctx.clientId}`);
+
+      sendAudioReady(session, client);
+      sessionManager.broadcastToSession(ctx.sessionId, {
+        type: 'client_list',
+        clients: sessionManager.getClientList(ctx.sessionId),
+      });
+      break;
+    }
+
+    case 'swap_channels': {
+      if (!ctx) return;
+      const { channelA, channelB } = message;
+
+      const available = sessionManager.getAvailableChannels(ctx.sessionId);
+      if (!available.includes(channelA) || !available.includes(channelB)) {
+        send(ws, {
+          type: 'error',
+          code: 'unavailable_channel',
+          message: 'Both channels must be part of this layout',
+          field: available.includes(channelA) ? 'channelB' : 'channelA',
+          request: message.type,
+        });
+        return;
+      }
+
+      const session = sessionManager.getSession(ctx.sessionId);
+      if (!session) return;
+      const changed = sessionManager.swapChannels(ctx.sessionId, channelA, channelB);
+      console.log(`[WS] Swapped ${channelA} and ${channelB} in session ${ctx.sessionId} (${changed.length} clients)`);
+
+      for (const client of changed) {
+        sendAudioReady(session, client);
+      }
+      sessionManager.broadcastToSession(ctx.sessionId, {
+        type: 'client_list',
+        clients: sessionManager.getClientList(ctx.sessionId),
+      });
       break;
     }
 
@@ -185,19 +557,25 @@ async function handleMessage(
         if (client) {
           const serverTimestamp = Date.now();
           // Calculate current position based on when playback started
-          const elapsedSinceSync = (serverTimestamp - session.playbackState.lastSyncTimestamp) / 1000;
+          const elapsedSinceSync = Math.max(0, serverTimestamp - session.playbackState.lastSyncTimestamp) / 1000;
           const currentPosition = session.playbackState.currentTime + elapsedSinceSync;
 
           console.log(`[WS] Sending play to late-joining client ${ctx.clientId} at position ${currentPosition.toFixed(1)}s`);
 
+          const lead = getLeadTimeMs([client]);
+          const scheduledTime = serverTimestamp + lead;
           sendTo(client, {
             type: 'play',
-            startTime: currentPosition,
-            serverTimestamp: serverTimestamp + 200, // Small delay to allow audio to start
+            startTime: currentPosition + lead / 1000,
+            serverTimestamp: scheduledTime,
+            clientTime: getClientActionTime(client, scheduledTime, sessionManager),
+            version: session.playbackState.version,
           });
+          sessionManager.resetDrift(ctx.sessionId, scheduledTime, client.id);
         }
       } else {
         console.log(`[WS] Session not playing, not sending play to ${ctx.clientId}`);
+        checkReadyBarrier(ctx.sessionId, sessionManager, audioProcessor);
       }
       break;
     }
@@ -211,24 +589,16 @@ async function handleMessage(
         console.log(`[WS] No audio source for session ${ctx.sessionId}`);
         return;
       }
+      if (isStaleRequest(session, message.version)) {
+        sendPlaybackConflict(ws, session, message.type);
+        return;
+      }
+      if (session.playbackState.isPlaying || session.pendingPlay) return;
 
-      const serverTimestamp = Date.now();
-      const scheduledTime = serverTimestamp + 500; // Schedule 500ms in future
-
-      sessionManager.updatePlaybackState(ctx.sessionId, {
-        isPlaying: true,
-        lastSyncTimestamp: serverTimestamp,
-      });
-      console.log(`[WS] Session ${ctx.sessionId} now playing, currentTime: ${session.playbackState.currentTime}`);
-
-      // Broadcast play command with synchronized timestamp
-      for (const client of session.clients.values()) {
-        const adjustedTime = scheduledTime - (client.latency / 2);
-        sendTo(client, {
-          type: 'play',
-          startTime: session.playbackState.currentTime,
-          serverTimestamp: adjustedTime,
-        });
+      if (session.readyBarrier) {
+        holdPlay(ctx.sessionId, sessionManager, audioProcessor, false);
+      } else {
+        startPlayback(ctx.sessionId, sessionManager, audioProcessor);
       }
       break;
     }
@@ -237,11 +607,21 @@ async function handleMessage(
       if (!ctx) return;
       const session = sessionManager.getSession(ctx.sessionId);
       if (!session) return;
+      if (isStaleRequest(session, message.version)) {
+        sendPlaybackConflict(ws, session, message.type);
+        return;
+      }
+      // Pausing calls off a play still waiting on the barrier
+      if (session.pendingPlay) {
+        clearTimeout(session.pendingPlay.timer);
+        session.pendingPlay = null;
+        broadcastWaitingFor(ctx.sessionId, sessionManager);
+      }
 
       const serverTimestamp = Date.now();
 
       // Calculate current position based on elapsed time since play started
-      const elapsedSinceSync = (serverTimestamp - session.playbackState.lastSyncTimestamp) / 1000;
+      const elapsedSinceSync = Math.max(0, serverTimestamp - session.playbackState.lastSyncTimestamp) / 1000;
       const currentPosition = session.playbackState.isPlaying
         ? session.playbackState.currentTime + elapsedSinceSync
         : session.playbackState.currentTime;
@@ -252,45 +632,285 @@ async function handleMessage(
         lastSyncTimestamp: serverTimestamp,
       });
 
+      scheduleTrackEnd(ctx.sessionId, sessionManager, audioProcessor);
+
       sessionManager.broadcastToSession(ctx.sessionId, {
         type: 'pause',
         currentTime: currentPosition,
         serverTimestamp,
+        version: session.playbackState.version,
       });
       break;
     }
 
     case 'seek_request': {
       if (!ctx) return;
-      const { targetTime } = message;
-      const serverTimestamp = Date.now();
+      const session = sessionManager.getSession(ctx.sessionId);
+      if (!session?.audioSource) return;
+      const { duration } = session.audioSource;
+      // Tracks of unknown length (duration 0) can't be clamped to their end
+      const targetTime = duration > 0
+        ? Math.min(Math.max(0, message.targetTime), duration)
+        : Math.max(0, message.targetTime);
+      // A seek names an absolute position, so a stale one is rebased onto the
+      // current state rather than rejected
+      if (isStaleRequest(session, message.version)) {
+        console.log(`[WS] Rebasing stale seek from ${ctx.clientId} (v${message.version} < v${session.playbackState.version})`);
+      }
+
+      // While playing, every device jumps at the same future instant
+      const serverTimestamp = session.playbackState.isPlaying
+        ? Date.now() + getLeadTimeMs(session.clients.values())
+        : Date.now();
 
       sessionManager.updatePlaybackState(ctx.sessionId, {
         currentTime: targetTime,
         lastSyncTimestamp: serverTimestamp,
       });
+      scheduleTrackEnd(ctx.sessionId, sessionManager, audioProcessor);
+
+      sessionManager.resetDrift(ctx.sessionId, serverTimestamp);
+      for (const client of session.clients.values()) {
+        sendTo(client, {
+          type: 'seek',
+          targetTime,
+          serverTimestamp,
+          clientTime: getClientActionTime(client, serverTimestamp, sessionManager),
+          version: session.playbackState.version,
+        });
+      }
+      break;
+    }
+
+    case 'start_calibration': {
+      if (!ctx) return;
+      const session = sessionManager.getSession(ctx.sessionId);
+      if (!session) return;
+      if (session.playbackState.isPlaying) {
+        send(ws, { type: 'calibration_failed', calibrationId: null, message: 'Pause playback before calibrating' });
+        return;
+      }
+      if (session.calibration) {
+        send(ws, { type: 'calibration_failed', calibrationId: null, message: 'Calibration already in progress' });
+        return;
+      }
+
+      // The requesting device records; every device, including it, plays a
+      // chirp in turn. Chirps are scheduled without the device trim, so the
+      // recording measures the raw output delay.
+      const calibrationId = nanoid(8);
+      const start = Date.now() + CALIBRATION_LEAD_MS;
+      const clients = Array.from(session.clients.values());
+      const slots: CalibrationSlot[] = clients.map((client, i) => ({
+        clientId: client.id,
+        serverTimestamp: start + i * CALIBRATION_SLOT_MS,
+      }));
+      session.calibration = {
+        id: calibrationId,
+        recorderClientId: ctx.clientId,
+        slots,
+        timeout: setTimeout(() => {
+          session.calibration = null;
+          sessionManager.broadcastToSession(ctx.sessionId, {
+            type: 'calibration_failed',
+            calibrationId,
+            message: 'No calibration result received',
+          });
+        }, CALIBRATION_LEAD_MS + slots.length * CALIBRATION_SLOT_MS + CALIBRATION_RESULT_TIMEOUT_MS),
+      };
+      console.log(`[WS] Calibration ${calibrationId} in session ${ctx.sessionId}: ${slots.length} devices, recorder ${ctx.clientId}`);
+
+      const recorder = session.clients.get(ctx.clientId)!;
+      send(ws, {
+        type: 'calibration_record',
+        calibrationId,
+        slots: slots.map((slot) => ({ clientId: slot.clientId, clientTime: toClientTime(recorder.clock, slot.serverTimestamp) })),
+        slotMs: CALIBRATION_SLOT_MS,
+      });
+      clients.forEach((client, i) => {
+        sendTo(client, {
+          type: 'calibration_chirp',
+          calibrationId,
+          clientTime: toClientTime(client.clock, slots[i].serverTimestamp),
+        });
+      });
+      break;
+    }
+
+    case 'calibration_result': {
+      if (!ctx) return;
+      const session = sessionManager.getSession(ctx.sessionId);
+      const run = session?.calibration;
+      if (!session || !run || run.id !== message.calibrationId || run.recorderClientId !== ctx.clientId) return;
+      clearTimeout(run.timeout);
+      session.calibration = null;
+
+      const offsets = new Map<string, number>();
+      for (const { clientId, offsetMs } of message.offsets) {
+        if (typeof offsetMs === 'number' && Math.abs(offsetMs) <= MAX_CALIBRATION_OFFSET_MS &&
+            run.slots.some((slot) => slot.clientId === clientId)) {
+          offsets.set(clientId, offsetMs);
+        }
+      }
+      if (offsets.size === 0) {
+        sessionManager.broadcastToSession(ctx.sessionId, {
+          type: 'calibration_failed',
+          calibrationId: run.id,
+          message: 'No chirps were heard, move the recording device closer to the speakers',
+        });
+        return;
+      }
+
+      // The recorder's own input delay is in every offset, so only the
+      // difference to the fastest device is output delay
+      const fastest = Math.min(...offsets.values());
+      const results: CalibrationResult[] = run.slots.map(({ clientId }) => {
+        const offset = offsets.get(clientId);
+        if (offset === undefined) return { clientId, latencyMs: null };
+        const trim = sessionManager.setDeviceTrim(ctx.sessionId, clientId, { latencyMs: Math.round(offset - fastest) });
+        const client = session.clients.get(clientId);
+        if (trim && client) sendTo(client, { type: 'device_trim', trim });
+        return { clientId, latencyMs: trim?.latencyMs ?? null };
+      });
+      console.log(`[WS] Calibration ${run.id} results:`, results);
 
       sessionManager.broadcastToSession(ctx.sessionId, {
-        type: 'seek',
-        targetTime,
-        serverTimestamp,
+        type: 'calibration_complete',
+        calibrationId: run.id,
+        results,
+      });
+      sessionManager.broadcastToSession(ctx.sessionId, {
+        type: 'client_list',
+        clients: sessionManager.getClientList(ctx.sessionId),
       });
       break;
     }
 
+    case 'set_device_trim': {
+      if (!ctx) return;
+      const { latencyMs, volumeDb } = message;
+      const clientId = message.clientId ?? ctx.clientId;
+
+      const trim = sessionManager.setDeviceTrim(ctx.sessionId, clientId, { latencyMs, volumeDb });
+      if (!trim) return;
+      console.log(`[WS] Client ${clientId} trim: ${trim.latencyMs}ms, ${trim.volumeDb}dB`);
+
+      // The latency trim applies from the next play or seek
+      const target = sessionManager.getSession(ctx.sessionId)?.clients.get(clientId);
+      if (target) sendTo(target, { type: 'device_trim', trim });
+      sessionManager.broadcastToSession(ctx.sessionId, {
+        type: 'client_list',
+        clients: sessionManager.getClientList(ctx.sessionId),
+      });
+      break;
+    }
+
+    case 'set_role': {
+      if (!ctx) return;
+      const { clientId, role } = message;
+      const target = sessionManager.getSession(ctx.sessionId)?.clients.get(clientId);
+      if (!target) return;
+      // There's always a host; it moves by making someone else host
+      if (target.role === 'host' && role !== 'host') {
+        send(ws, {
+          type: 'error',
+          code: 'forbidden',
+          message: 'Make another device host first',
+          field: 'clientId',
+          request: message.type,
+        });
+        return;
+      }
+
+      const changed = sessionManager.setClientRole(ctx.sessionId, clientId, role);
+      if (changed.length === 0) return;
+      console.log(`[WS] Client ${clientId} made ${role} by ${ctx.clientId}`);
+      // The new host gets its own key, and the old host's stops working
+      const hostKey = role === 'host' ? sessionManager.issueHostKey(ctx.sessionId) : undefined;
+      for (const client of changed) {
+        sendTo(client, { type: 'role_change', role: client.role, hostKey: client.id === clientId ? hostKey : undefined });
+      }
+      sessionManager.broadcastToSession(ctx.sessionId, {
+        type: 'client_list',
+        clients: sessionManager.getClientList(ctx.sessionId),
+      });
+      break;
+    }
+
+    case 'set_guest_role': {
+      if (!ctx) return;
+      sessionManager.setGuestRole(ctx.sessionId, message.role);
+      console.log(`[WS] Session ${ctx.sessionId} guests join as ${message.role}`);
+      broadcastAccess(ctx.sessionId, sessionManager);
+      break;
+    }
+
+    case 'set_session_password': {
+      if (!ctx) return;
+      // Clients already in the session stay; the password is for new ones
+      const passwordHash = message.password === null ? null : await hashPassword(message.password);
+      sessionManager.setPasswordHash(ctx.sessionId, passwordHash);
+      console.log(`[WS] Session ${ctx.sessionId} password ${message.password === null ? 'removed' : 'set'}`);
+      broadcastAccess(ctx.sessionId, sessionManager);
+      break;
+    }
+
     case 'ping': {
       if (!ctx) return;
-      const { clientTimestamp } = message;
-      const serverTimestamp = Date.now();
+      const serverReceiveTimestamp = Date.now();
+      const { clientTimestamp, sample } = message;
 
-      // Calculate and store latency (rough estimate)
-      const latency = serverTimestamp - clientTimestamp;
-      sessionManager.setClientLatency(ctx.sessionId, ctx.clientId, Math.max(0, latency));
+      if (sample) {
+        sessionManager.addClockSample(ctx.sessionId, ctx.clientId, sample);
+      }
 
       send(ws, {
         type: 'pong',
-        serverTimestamp,
         clientTimestamp,
+        serverReceiveTimestamp,
+        serverTimestamp: Date.now(),
+      });
+      break;
+    }
+
+    case 'position_report': {
+      if (!ctx) return;
+      const { position, clientTimestamp } = message;
+      const session = sessionManager.getSession(ctx.sessionId);
+      const client = session?.clients.get(ctx.clientId);
+      if (!session?.audioSource || !client || !session.playbackState.isPlaying) return;
+      const serverTimestamp = toServerTime(client.clock, clientTimestamp);
+      if (serverTimestamp < client.drift.settleUntil) return;
+
+      // Clients are scheduled ahead by their device trim
+      const { currentTime, lastSyncTimestamp } = session.playbackState;
+      const lead = sessionManager.getDeviceTrim(client).latencyMs;
+      const expected = currentTime + (serverTimestamp - lastSyncTimestamp + lead) / 1000;
+      const correction = updateDrift(client.drift, measureDrift(position, expected, session.audioSource.duration));
+      if (!correction) return;
+
+      if (correction.kind === 'rate') {
+        client.drift.playbackRate = correction.playbackRate;
+        sendTo(client, { type: 'resync', playbackRate: correction.playbackRate, version: session.playbackState.version });
+      } else {
+        console.log(`[WS] Client ${client.id} drifted ${Math.round(client.drift.driftMs!)}ms, re-seeking`);
+        const startsAt = Date.now() + getLeadTimeMs([client]);
+        const duration = session.audioSource.duration;
+        const livePosition = currentTime + (startsAt - lastSyncTimestamp) / 1000;
+        client.drift.resyncs++;
+        sessionManager.resetDrift(ctx.sessionId, startsAt, client.id);
+        sendTo(client, {
+          type: 'resync',
+          playbackRate: 1,
+          startTime: duration > 0 ? livePosition % duration : livePosition,
+          serverTimestamp: startsAt,
+          clientTime: getClientActionTime(client, startsAt, sessionManager),
+          version: session.playbackState.version,
+        });
+      }
+      sessionManager.broadcastToSession(ctx.sessionId, {
+        type: 'client_list',
+        clients: sessionManager.getClientList(ctx.sessionId),
       });
       break;
     }
@@ -300,6 +920,7 @@ async function handleMessage(
       const { channel, volume } = message;
       const targetClient = sessionManager.getClientByChannel(ctx.sessionId, channel);
       if (targetClient) {
+        sessionManager.setClientVolume(ctx.sessionId, targetClient.id, volume);
         sendTo(targetClient, {
           type: 'volume_change',
           volume,
@@ -310,19 +931,568 @@ async function handleMessage(
   }
 }
 
-function getAudioUrlForChannel(session: Session, channel: string): string {
-  if (!session.audioSource) return '';
-  switch (channel) {
-    case 'left':
-      return session.audioSource.files.left;
-    case 'right':
-      return session.audioSource.files.right;
+// What a message needs its sender's role to allow; null for messages any client may send
+function getRequiredPermission(message: ClientMessage, clientId: string): Permission | null {
+  switch (message.type) {
+    case 'play_request':
+    case 'pause_request':
+    case 'seek_request':
+      return 'playback';
+    case 'submit_link':
+    case 'enqueue_track':
+    case 'remove_track':
+    case 'move_track':
+    case 'cancel_processing':
+      return 'tracks';
+    case 'volume_request':
+      return 'volume';
+    case 'set_layout':
+    case 'set_normalization':
+    case 'set_ready_barrier':
+    case 'audio_settings':
+    case 'swap_channels':
+    case 'start_calibration':
+      return 'settings';
+    // Every device may pick its own channel and trim
+    case 'set_channel':
+    case 'set_device_trim':
+      return message.clientId !== undefined && message.clientId !== clientId ? 'settings' : null;
+    case 'set_role':
+    case 'set_guest_role':
+    case 'set_session_password':
+      return 'manage';
     default:
-      return session.audioSource.files.stereo;
+      return null;
   }
 }
 
+function broadcastAccess(sessionId: string, sessionManager: SessionManager) {
+  const session = sessionManager.getSession(sessionId);
+  if (!session) return;
+  sessionManager.broadcastToSession(sessionId, {
+    type: 'access_update',
+    passwordProtected: session.passwordHash !== null,
+    guestRole: session.guestRole,
+  });
+}
+
+// Start the session playing at a shared instant far enough out for every client
+// startAt is the earliest server time to start at, if later than the lead time allows
+function startPlayback(sessionId: string, sessionManager: SessionManager, audioProcessor: AudioProcessor, startAt = 0) {
+  const session = sessionManager.getSession(sessionId);
+  if (!session?.audioSource) return;
+
+  const scheduledTime = Math.max(startAt, Date.now() + getLeadTimeMs(session.clients.values()));
+
+  // Playback starts at the scheduled instant, not when the request came in
+  sessionManager.updatePlaybackState(sessionId, {
+    isPlaying: true,
+    lastSyncTimestamp: scheduledTime,
+  });
+  console.log(`[WS] Session ${sessionId} now playing, currentTime: ${session.playbackState.currentTime}`);
+  scheduleTrackEnd(sessionId, sessionManager, audioProcessor);
+  sessionManager.resetDrift(sessionId, scheduledTime);
+
+  // Broadcast play command with synchronized timestamp
+  for (const client of session.clients.values()) {
+    sendTo(client, {
+      type: 'play',
+      startTime: session.playbackState.currentTime,
+      serverTimestamp: scheduledTime,
+      clientTime: getClientActionTime(client, scheduledTime, sessionManager),
+      version: session.playbackState.version,
+    });
+  }
+}
+
+// Start playback once every channel in use has a device that decoded the
+// track, or at the timeout. Starts right away if nothing is holding it up.
+function holdPlay(
+  sessionId: string,
+  sessionManager: SessionManager,
+  audioProcessor: AudioProcessor,
+  waitForAll: boolean,
+  startAt = 0
+) {
+  const session = sessionManager.getSession(sessionId);
+  if (!session) return;
+  if (session.pendingPlay) clearTimeout(session.pendingPlay.timer);
+  if (sessionManager.getUnreadyClients(sessionId).length === 0) {
+    session.pendingPlay = null;
+    startPlayback(sessionId, sessionManager, audioProcessor, startAt);
+    return;
+  }
+
+  // The timeout runs from when playback was meant to start
+  const timer = setTimeout(() => {
+    session.pendingPlay = null;
+    console.log(`[WS] Ready barrier timed out in session ${sessionId}, starting anyway`);
+    startPlayback(sessionId, sessionManager, audioProcessor);
+  }, Math.max(0, startAt - Date.now()) + READY_BARRIER_TIMEOUT_MS);
+  session.pendingPlay = { timer, waitForAll, startAt };
+  broadcastWaitingFor(sessionId, sessionManager);
+}
+
+// Start a held play once nobody is holding it up any more (or the barrier
+// was turned off); otherwise update who it waits for
+function checkReadyBarrier(sessionId: string, sessionManager: SessionManager, audioProcessor: AudioProcessor) {
+  const session = sessionManager.getSession(sessionId);
+  if (!session?.pendingPlay) return;
+
+  const waitForAll = session.readyBarrier || session.pendingPlay.waitForAll;
+  if (waitForAll && sessionManager.getUnreadyClients(sessionId).length > 0) {
+    broadcastWaitingFor(sessionId, sessionManager);
+    return;
+  }
+  const { timer, startAt } = session.pendingPlay;
+  clearTimeout(timer);
+  session.pendingPlay = null;
+  startPlayback(sessionId, sessionManager, audioProcessor, startAt);
+}
+
+function broadcastWaitingFor(sessionId: string, sessionManager: SessionManager) {
+  const session = sessionManager.getSession(sessionId);
+  const waiting = session?.pendingPlay ? sessionManager.getUnreadyClients(sessionId) : [];
+  sessionManager.broadcastToSession(sessionId, {
+    type: 'waiting_for',
+    clients: waiting.map((c) => ({ id: c.id, channel: c.assignedChannel })),
+    timeoutMs: READY_BARRIER_TIMEOUT_MS,
+  });
+}
+
+// Ping every client at the WebSocket level and evict those that stopped
+// answering, releasing their channel. They can still resume within the grace window.
+function checkHeartbeats(sessionManager: SessionManager, timeoutMs: number) {
+  const now = Date.now();
+  const changed = new Set<string>();
+
+  for (const { sessionId, client } of sessionManager.listClients()) {
+    if (now - client.heartbeat.lastSeenAt > timeoutMs) {
+      console.log(`[WS] Evicting unresponsive client ${client.id} from session ${sessionId}`);
+      sessionManager.removeClient(sessionId, client.id);
+      client.websocket.terminate();
+      changed.add(sessionId);
+      continue;
+    }
+
+    if (client.heartbeat.pingSentAt !== null) client.heartbeat.missed++;
+    client.heartbeat.pingSentAt = now;
+    client.websocket.ping();
+
+    const quality = getConnectionQuality(client);
+    if (quality !== client.heartbeat.reportedQuality) {
+      client.heartbeat.reportedQuality = quality;
+      changed.add(sessionId);
+    }
+  }
+
+  for (const sessionId of changed) {
+    sessionManager.broadcastToSession(sessionId, {
+      type: 'client_list',
+      clients: sessionManager.getClientList(sessionId),
+    });
+  }
+}
+
+// Options for a job that loads the session's current track: it's rendered
+// with the session's DSP settings, progress is broadcast to every client,
+// cancel_processing can stop it, and a newer load for the session supersedes it
+export function createLoadJob(
+  sessionId: string,
+  url: string,
+  sessionManager: SessionManager
+): ProcessOptions {
+  const jobId = nanoid(8);
+  const session = sessionManager.getSession(sessionId);
+  if (session) session.processingJobId = jobId;
+
+  return {
+    jobId,
+    owner: sessionId,
+    settings: session?.audioSettings,
+    onProgress: (progress) => {
+      sessionManager.broadcastToSession(sessionId, { type: 'audio_progress', url, ...progress });
+    },
+  };
+}
+
+// Forget a failed load job, unless a newer load has taken over the session
+export function endLoadJob(sessionId: string, job: ProcessOptions, sessionManager: SessionManager) {
+  const session = sessionManager.getSession(sessionId);
+  if (session && session.processingJobId === job.jobId) session.processingJobId = null;
+}
+
+// Keep sessions in step with background encoding of their tracks
+export function updateAudioStatus(
+  audioId: string,
+  status: AudioStatus,
+  loudness: Loudness | null,
+  sessionManager: SessionManager
+) {
+  for (const sessionId of sessionManager.setAudioStatus(audioId, status, loudness)) {
+    const session = sessionManager.getSession(sessionId);
+    const current = session?.audioSource?.audioId === audioId ? session.audioSource : null;
+
+    // The current track was measured, clients can level it now
+    if (session && current && loudness && session.normalize) {
+      sessionManager.broadcastToSession(sessionId, { type: 'track_gain', gainDb: getTrackGain(session) });
+    }
+
+    if (status !== 'failed') continue;
+    if (current) {
+      sessionManager.broadcastToSession(sessionId, {
+        type: 'error',
+        code: 'processing_failed',
+        message: `Processing "${current.title}" failed partway, please load it again`,
+      });
+    }
+    broadcastQueue(sessionId, sessionManager);
+  }
+}
+
+// After a restart, check that restored tracks were fully written. Truncated or
+// missing current tracks are processed again; queued ones go back to pending.
+export async function verifyRestoredSessions(
+  sessionManager: SessionManager,
+  audioProcessor: AudioProcessor
+) {
+  // Sessions can share processed audio, so each directory is probed once
+  const sources = new Map<string, AudioSource>();
+  for (const { id: sessionId } of sessionManager.listSessions()) {
+    const session = sessionManager.getSession(sessionId)!;
+    for (const source of [session.audioSource, ...session.queue.map((item) => item.audioSource)]) {
+      if (source && source.status !== 'failed') sources.set(source.audioId, source);
+    }
+  }
+
+  let broken = 0;
+  for (const [audioId, source] of sources) {
+    if (await audioProcessor.verifyAudio(audioId, source.files, source.duration)) {
+      sessionManager.setAudioStatus(audioId, 'complete');
+    } else {
+      broken++;
+      sessionManager.setAudioStatus(audioId, 'failed');
+      await audioProcessor.invalidate(audioId);
+    }
+  }
+  console.log(`[WS] Verified restored audio: ${sources.size - broken} ok, ${broken} to re-process`);
+
+  for (const { id: sessionId } of sessionManager.listSessions()) {
+    const session = sessionManager.getSession(sessionId)!;
+    for (const item of session.queue) {
+      if (item.audioSource?.status === 'failed') {
+        sessionManager.updateQueueItem(sessionId, item.id, { status: 'pending', audioSource: null });
+      }
+    }
+
+    const current = session.audioSource;
+    if (current?.status === 'failed') {
+      reloadAudioSource(sessionId, current, sessionManager, audioProcessor).catch((err) => {
+        console.error(`Failed to re-process ${current.url}:`, err);
+      });
+    }
+    void prepareNextTrack(sessionId, sessionManager, audioProcessor);
+  }
+}
+
+// Bring a session's tracks in line with its layout and DSP settings. Queued
+// tracks rendered differently go back to pending and the current one is
+// processed again. Returns whether the current track was reloaded.
+async function rerenderSession(
+  sessionId: string,
+  ws: WebSocket,
+  sessionManager: SessionManager,
+  audioProcessor: AudioProcessor
+): Promise<boolean> {
+  const session = sessionManager.getSession(sessionId);
+  if (!session) return false;
+
+  const settingsKey = getSettingsKey(session.audioSettings);
+  const isCurrentRender = (source: AudioSource) =>
+    source.layout === session.layout && source.settingsKey === settingsKey;
+
+  for (const item of session.queue) {
+    if (item.audioSource && !isCurrentRender(item.audioSource)) {
+      sessionManager.updateQueueItem(sessionId, item.id, { status: 'pending', audioSource: null });
+    }
+  }
+  broadcastQueue(sessionId, sessionManager);
+
+  const current = session.audioSource;
+  if (!current || isCurrentRender(current)) return false;
+
+  try {
+    await reloadAudioSource(sessionId, current, sessionManager, audioProcessor);
+  } catch (err) {
+    console.error('Audio re-processing error:', err);
+    send(ws, { type: 'error', code: 'processing_failed', message: 'Failed to process audio for the new settings' });
+  }
+  return true;
+}
+
+// Process a session's current track again from its source, with the
+// session's current layout and settings
+async function reloadAudioSource(
+  sessionId: string,
+  current: AudioSource,
+  sessionManager: SessionManager,
+  audioProcessor: AudioProcessor
+) {
+  const layout = sessionManager.getSession(sessionId)?.layout ?? current.layout;
+  sessionManager.broadcastToSession(sessionId, { type: 'audio_loading', url: current.url });
+  const job = createLoadJob(sessionId, current.url, sessionManager);
+  try {
+    const processed = await audioProcessor.processUrl(current.url, layout, job);
+    loadAudioSource(sessionId, {
+      ...current,
+      duration: processed.duration || current.duration,
+      layout: processed.layout,
+      settingsKey: processed.settingsKey,
+      audioId: processed.id,
+      files: processed.files,
+      variants: processed.variants,
+      status: processed.status,
+      loudness: processed.loudness,
+    }, sessionManager, audioProcessor);
+  } catch (err) {
+    if (err instanceof ProcessingCancelledError) return;
+    endLoadJob(sessionId, job, sessionManager);
+    throw err;
+  }
+}
+
+// Replace the session's current track and push it to every client
+export function loadAudioSource(
+  sessionId: string,
+  audioSource: AudioSource,
+  sessionManager: SessionManager,
+  audioProcessor: AudioProcessor
+) {
+  sessionManager.setAudioSource(sessionId, audioSource);
+
+  // Reset ready state for all clients
+  const session = sessionManager.getSession(sessionId);
+  if (session) {
+    // The load has settled, so joiners get the track rather than audio_loading
+    session.processingJobId = null;
+    sendAudioReadyToAll(session);
+    scheduleTrackEnd(sessionId, sessionManager, audioProcessor);
+  }
+}
+
+function sendAudioReadyToAll(session: Session) {
+  for (const client of session.clients.values()) {
+    sendAudioReady(session, client);
+  }
+}
+
+// Send a client the audio URL for its channel. It reports 'ready' once loaded,
+// which also brings it in at the live position if the session is playing.
+function sendAudioReady(session: Session, client: ClientInfo) {
+  if (!session.audioSource || session.audioSource.status === 'failed') return;
+  client.isReady = false;
+  const audioUrl = getAudioUrlForChannel(session, client.assignedChannel);
+  sendTo(client, {
+    type: 'audio_ready',
+    audioUrl,
+    manifestUrl: getManifestUrlForChannel(session.audioSource, client.assignedChannel, PRIMARY_VARIANT),
+    variants: getVariantsForChannel(session.audioSource, client.assignedChannel),
+    duration: session.audioSource.duration,
+    title: session.audioSource.title,
+    loudness: session.audioSource.loudness,
+    gainDb: getTrackGain(session),
+    version: session.playbackState.version,
+  });
+  sendPreload(session, client);
+}
+
+// Send a client the next queued track's files for its channel, if that track is ready
+function sendPreload(session: Session, client: ClientInfo) {
+  const next = session.queue.find((item) => item.status !== 'failed');
+  if (!session.audioSource || next?.status !== 'ready' || !next.audioSource) return;
+  sendTo(client, { type: 'preload_track', variants: getVariantsForChannel(next.audioSource, client.assignedChannel) });
+}
+
+// Gain that brings the current track to the target loudness without
+// clipping, in dB. Tracks still encoding haven't been measured yet.
+function getTrackGain(session: Session): number {
+  const loudness = session.audioSource?.loudness;
+  if (!session.normalize || !loudness) return 0;
+  const gain = Math.min(
+    NORMALIZATION_TARGET_LUFS - loudness.integrated,
+    MAX_TRUE_PEAK_DBTP - loudness.truePeak
+  );
+  return Math.round(gain * 10) / 10;
+}
+
+function broadcastQueue(sessionId: string, sessionManager: SessionManager) {
+  sessionManager.broadcastToSession(sessionId, {
+    type: 'queue_update',
+    queue: sessionManager.getQueue(sessionId),
+  });
+}
+
+// Current playback position, extrapolated from the last sync point
+function getLivePosition(session: Session): number {
+  const { isPlaying, currentTime, lastSyncTimestamp } = session.playbackState;
+  if (!isPlaying) return currentTime;
+  // lastSyncTimestamp is in the future while a play or seek is scheduled
+  return currentTime + Math.max(0, Date.now() - lastSyncTimestamp) / 1000;
+}
+
+// Whether the session should hand over to the next queued track: the current
+// one is about to end, or already looping past its end
+function isTrackEnding(session: Session): boolean {
+  if (!session.audioSource) return true;
+  const { duration } = session.audioSource;
+  return session.playbackState.isPlaying && duration > 0 && getTrackEndTime(session) - Date.now() <= HANDOFF_LEAD_MS;
+}
+
+// Server time the playing track runs out at
+function getTrackEndTime(session: Session): number {
+  const duration = session.audioSource?.duration ?? 0;
+  // Playback that is still scheduled hasn't started using up the track yet
+  const startsIn = Math.max(0, session.playbackState.lastSyncTimestamp - Date.now());
+  return Date.now() + startsIn + (duration - getLivePosition(session)) * 1000;
+}
+
+// (Re)arm the timer that advances the queue when the current track ends
+function scheduleTrackEnd(
+  sessionId: string,
+  sessionManager: SessionManager,
+  audioProcessor: AudioProcessor
+) {
+  const session = sessionManager.getSession(sessionId);
+  if (!session) return;
+
+  if (session.trackEndTimer) {
+    clearTimeout(session.trackEndTimer);
+    session.trackEndTimer = null;
+  }
+
+  const duration = session.audioSource?.duration ?? 0;
+  if (!session.playbackState.isPlaying || duration <= 0) return;
+
+  session.trackEndTimer = setTimeout(() => {
+    session.trackEndTimer = null;
+    // If the next track isn't ready yet, clients keep looping the current one
+    // and prepareNextTrack() advances once processing finishes
+    advanceToNextTrack(sessionId, sessionManager, audioProcessor);
+  }, Math.max(0, getTrackEndTime(session) - Date.now() - HANDOFF_LEAD_MS));
+}
+
+function advanceToNextTrack(
+  sessionId: string,
+  sessionManager: SessionManager,
+  audioProcessor: AudioProcessor
+): boolean {
+  const session = sessionManager.getSession(sessionId);
+  if (!session) return false;
+
+  // Keep playing if the previous track was playing, starting as it ends
+  const wasPlaying = !!session.audioSource && session.playbackState.isPlaying;
+  const endsAt = wasPlaying ? getTrackEndTime(session) : 0;
+  const next = sessionManager.advanceQueue(sessionId);
+  if (!next) return false;
+
+  console.log(`[WS] Session ${sessionId} advancing to queued track: ${next.audioSource?.title}`);
+
+  // Devices that preloaded the track report ready right away, so it starts
+  // the moment the previous one ends. Everyone else plays the previous one
+  // out and the start waits for them, so none misses it.
+  sendAudioReadyToAll(session);
+  broadcastQueue(sessionId, sessionManager);
+  if (wasPlaying) {
+    holdPlay(sessionId, sessionManager, audioProcessor, true, endsAt);
+  } else {
+    scheduleTrackEnd(sessionId, sessionManager, audioProcessor);
+  }
+
+  // Pre-process whatever is next in line
+  void prepareNextTrack(sessionId, sessionManager, audioProcessor);
+  return true;
+}
+
+// Process the next queued track ahead of time and have the devices preload
+// it, so the handoff is gapless
+async function prepareNextTrack(
+  sessionId: string,
+  sessionManager: SessionManager,
+  audioProcessor: AudioProcessor
+): Promise<void> {
+  const next = sessionManager.getNextQueueItem(sessionId);
+  if (!next) return;
+
+  if (next.status === 'pending') {
+    sessionManager.updateQueueItem(sessionId, next.id, { status: 'processing' });
+    broadcastQueue(sessionId, sessionManager);
+
+    try {
+      const session = sessionManager.getSession(sessionId);
+      const processed = await audioProcessor.processUrl(next.url, session?.layout ?? DEFAULT_LAYOUT, {
+        settings: session?.audioSettings,
+      });
+      sessionManager.updateQueueItem(sessionId, next.id, {
+        status: 'ready',
+        audioSource: {
+          url: next.url,
+          title: processed.title,
+          duration: processed.duration,
+          layout: processed.layout,
+          settingsKey: processed.settingsKey,
+          audioId: processed.id,
+          files: processed.files,
+          variants: processed.variants,
+          status: processed.status,
+          loudness: processed.loudness,
+        },
+      });
+    } catch (err) {
+      console.error('Queued track processing error:', err);
+      sessionManager.updateQueueItem(sessionId, next.id, { status: 'failed' });
+    }
+    broadcastQueue(sessionId, sessionManager);
+  }
+
+  if (next.status === 'ready') {
+    const session = sessionManager.getSession(sessionId);
+    if (session && isTrackEnding(session)) {
+      advanceToNextTrack(sessionId, sessionManager, audioProcessor);
+    } else if (session) {
+      for (const client of session.clients.values()) sendPreload(session, client);
+    }
+  } else if (next.status === 'failed') {
+    await prepareNextTrack(sessionId, sessionManager, audioProcessor);
+  }
+}
+
+function getAudioUrlForChannel(session: Session, channel: Channel): string {
+  if (!session.audioSource) return '';
+  // Fall back to the stereo mix for channels this track wasn't split into
+  return session.audioSource.files[channel] ?? session.audioSource.files.stereo;
+}
+
+// Channels this track wasn't split into stream the stereo mix, as above
+function getManifestUrlForChannel(audioSource: AudioSource, channel: Channel, variant: AudioVariant): string {
+  const { audioId, files } = audioSource;
+  return `/api/audio/${audioId}/${files[channel] ? channel : 'stereo'}/manifest?variant=${variant}`;
+}
+
+function getVariantsForChannel(audioSource: AudioSource, channel: Channel): AudioVariantInfo[] {
+  return audioSource.variants.map((variant) => ({
+    variant,
+    mimeType: VARIANTS[variant].mimeType,
+    bitrate: VARIANTS[variant].bitrate,
+    manifestUrl: getManifestUrlForChannel(audioSource, channel, variant),
+  }));
+}
+
 function send(ws: WebSocket, message: ServerMessage) {
+  const invalid = validateServerMessage(message);
+  if (invalid) {
+    console.error(`[WS] Not sending invalid message ${invalid}`);
+    return;
+  }
   if (ws.readyState === 1) {
     ws.send(JSON.stringify(message));
   }
@@ -332,16 +1502,43 @@ function sendTo(client: ClientInfo, message: ServerMessage) {
   send(client.websocket, message);
 }
 
-function isYouTubeUrl(url: string): boolean {
-  try {
-    const parsed = new URL(url);
-    return (
-      parsed.hostname === 'youtube.com' ||
-      parsed.hostname === 'www.youtube.com' ||
-      parsed.hostname === 'youtu.be' ||
-      parsed.hostname === 'm.youtube.com'
-    );
-  } catch {
-    return false;
+// Whether a request was made against an older playback state. Requests
+// without a version come from older clients and are always applied.
+function isStaleRequest(session: Session, version: number | undefined): boolean {
+  return typeof version === 'number' && version < session.playbackState.version;
+}
+
+function sendPlaybackConflict(ws: WebSocket, session: Session, request: 'play_request' | 'pause_request') {
+  console.log(`[WS] Rejecting stale ${request} in session ${session.id} (now v${session.playbackState.version})`);
+  send(ws, {
+    type: 'playback_conflict',
+    request,
+    isPlaying: session.playbackState.isPlaying,
+    currentTime: getLivePosition(session),
+    version: session.playbackState.version,
+  });
+}
+
+function getLeadTimeMs(clients: Iterable<ClientInfo>): number {
+  let slowest = 0;
+  for (const client of clients) {
+    if (!client.isReady) continue; // Joins from the 'ready' handler once decoded
+    const { rttMs, uncertaintyMs } = client.clock;
+    slowest = Math.max(slowest, Number.isFinite(uncertaintyMs) ? rttMs + 2 * uncertaintyMs : UNSYNCED_LEAD_MS);
   }
+  return Math.round(Math.min(MAX_LEAD_MS, Math.max(MIN_LEAD_MS, slowest + SOURCE_START_MS)));
+}
+
+// When a client should act on something scheduled for serverTime, in its own
+// clock. Devices with output delay act early by their trim.
+function getClientActionTime(client: ClientInfo, serverTime: number, sessionManager: SessionManager): number {
+  return toClientTime(client.clock, serverTime - sessionManager.getDeviceTrim(client).latencyMs);
+}
+
+function isDeviceToken(value: unknown): value is string {
+  return typeof value === 'string' && /^[\w-]{8,64}$/.test(value);
+}
+
+function unsupportedUrlMessage(audioProcessor: AudioProcessor): string {
+  return `Unsupported URL. Supported sources: ${audioProcessor.getProviderNames().join(', ')}`;
 }
@@ -0,0 +1,509 @@
+import type { Channel, DeviceTrim, SessionManager } from '../services/SessionManager.js';
+import type { ProcessingStage, Loudness } from '../services/AudioProcessor.js';
+import { SpeakerLayout, LAYOUTS, SPEAKER_CHANNELS } from '../services/layouts.js';
+import { VARIANTS, AudioVariant } from '../services/variants.js';
+import type { AudioSettings } from '../services/dsp.js';
+import type { ClockSample } from '../services/clock.js';
+import { Role, ROLES } from '../services/access.js';
+
+// Bumped on any change existing clients would trip over: a removed or renamed
+// message or field, or a field whose meaning changes. New optional fields and
+// new message types don't need a bump.
+export const PROTOCOL_VERSION = 1;
+
+export type ServerMessage =
+  | {
+      type: 'session_joined';
+      protocolVersion: number;
+      sessionId: string;
+      clientId: string;
+      channel: Channel;
+      layout: SpeakerLayout;
+      normalize: boolean;
+      readyBarrier: boolean;
+      audioSettings: AudioSettings;
+      trim: DeviceTrim;
+      playbackVersion: number;
+      resumeToken: string;
+      resumed: boolean;
+      volume: number;
+      role: Role;
+      passwordProtected: boolean;
+      guestRole: Role;
+      hostKey?: string; // For a client that just became host, to send with its later joins
+    }
+  | { type: 'layout_update'; layout: SpeakerLayout }
+  | {
+      type: 'audio_ready';
+      audioUrl: string;
+      manifestUrl: string;
+      variants: AudioVariantInfo[];
+      duration: number;
+      title: string;
+      loudness: Loudness | null;
+      gainDb: number; // Normalization gain to apply, 0 when off or not measured yet
+      version: number; // Playback state version, reset by every new track
+    }
+  // The next queued track, for the client to load ahead of time. Its audio_ready
+  // follows shortly before the current track ends.
+  | { type: 'preload_track'; variants: AudioVariantInfo[] }
+  | { type: 'track_gain'; gainDb: number }
+  | { type: 'normalization_update'; normalize: boolean }
+  | { type: 'ready_barrier_update'; enabled: boolean }
+  // Play is held until these devices have decoded the track; empty once released
+  | { type: 'waiting_for'; clients: Array<{ id: string; channel: Channel }>; timeoutMs: number }
+  | { type: 'audio_settings_update'; settings: AudioSettings }
+  | { type: 'audio_loading'; url: string }
+  | { type: 'audio_progress'; url: string; stage: ProcessingStage; percent: number; bufferedSeconds: number }
+  | { type: 'processing_cancelled' }
+  // Scheduled actions carry the server time and clientTime, when the client
+  // should act in its own clock (including its device trim). version is the
+  // playback state they belong to; clients drop anything older than they've applied.
+  | { type: 'play'; startTime: number; serverTimestamp: number; clientTime: number; version: number }
+  | { type: 'pause'; currentTime: number; serverTimestamp: number; version: number }
+  // Drift correction: a new playback rate, or a re-seek to startTime at clientTime
+  | {
+      type: 'resync';
+      playbackRate: number;
+      startTime?: number;
+      serverTimestamp?: number;
+      clientTime?: number;
+      version: number;
+    }
+  | { type: 'seek'; targetTime: number; serverTimestamp: number; clientTime: number; version: number }
+  // A play or pause made against an older state was rejected; this is the current one
+  | {
+      type: 'playback_conflict';
+      request: 'play_request' | 'pause_request';
+      isPlaying: boolean;
+      currentTime: number;
+      version: number;
+    }
+  | { type: 'pong'; clientTimestamp: number; serverReceiveTimestamp: number; serverTimestamp: number }
+  | { type: 'client_list'; clients: ReturnType<SessionManager['getClientList']> }
+  | { type: 'volume_change'; volume: number }
+  | { type: 'role_change'; role: Role; hostKey?: string } // hostKey as in session_joined
+  | { type: 'access_update'; passwordProtected: boolean; guestRole: Role }
+  | { type: 'device_trim'; trim: DeviceTrim }
+  | { type: 'calibration_chirp'; calibrationId: string; clientTime: number }
+  | { type: 'calibration_record'; calibrationId: string; slots: Array<{ clientId: string; clientTime: number }>; slotMs: number }
+  | { type: 'calibration_complete'; calibrationId: string; results: CalibrationResult[] }
+  | { type: 'calibration_failed'; calibrationId: string | null; message: string }
+  | { type: 'queue_update'; queue: ReturnType<SessionManager['getQueue']> }
+  | ({ type: 'error' } & ProtocolError);
+
+// Output delay measured for one device, relative to the fastest; null if its chirp wasn't heard
+export interface CalibrationResult {
+  clientId: string;
+  latencyMs: number | null;
+}
+
+// An encoding of the client's channel it can choose to stream instead
+export interface AudioVariantInfo {
+  variant: AudioVariant;
+  mimeType: string;
+  bitrate: number | null; // kbps, null for lossless
+  manifestUrl: string;
+}
+
+export type ClientMessage =
+  // resumeToken from an earlier session_joined takes that client back over after
+  // a dropped connection. Clients that leave out protocolVersion are assumed current.
+  // password is needed for protected sessions, and protects a session the join creates.
+  // hostKey, from the session_joined or role_change that made the device host, rejoins as host.
+  | {
+      type: 'join_session';
+      sessionId: string;
+      protocolVersion?: number;
+      deviceToken?: string;
+      resumeToken?: string;
+      password?: string;
+      hostKey?: string;
+    }
+  | { type: 'submit_link'; url: string }
+  | { type: 'enqueue_track'; url: string }
+  | { type: 'remove_track'; itemId: string }
+  | { type: 'move_track'; itemId: string; toIndex: number }
+  | { type: 'cancel_processing' }
+  | { type: 'ready' }
+  // version is the playback state the request was made against
+  | { type: 'play_request'; version?: number }
+  | { type: 'pause_request'; version?: number }
+  | { type: 'seek_request'; targetTime: number; version?: number }
+  | { type: 'volume_request'; channel: Channel; volume: number }
+  | { type: 'set_layout'; layout: SpeakerLayout }
+  | { type: 'set_normalization'; enabled: boolean }
+  | { type: 'set_ready_barrier'; enabled: boolean }
+  // Missing settings keep their defaults
+  | { type: 'audio_settings'; settings: Partial<AudioSettings> }
+  | { type: 'set_channel'; channel: Channel; clientId?: string }
+  | { type: 'swap_channels'; channelA: Channel; channelB: Channel }
+  | { type: 'set_device_trim'; clientId?: string; latencyMs?: number; volumeDb?: number }
+  | { type: 'start_calibration' }
+  // Host only: roles, the role new devices get and the session password (null removes it)
+  | { type: 'set_role'; clientId: string; role: Role }
+  | { type: 'set_guest_role'; role: Exclude<Role, 'host'> }
+  | { type: 'set_session_password'; password: string | null }
+  | { type: 'calibration_result'; calibrationId: string; offsets: Array<{ clientId: string; offsetMs: number | null }> }
+  // sample is the previous ping/pong exchange, completed with its receive time
+  | { type: 'ping'; clientTimestamp: number; sample?: ClockSample }
+  | { type: 'position_report'; position: number; clientTimestamp: number };
+
+export const ERROR_CODES = [
+  'invalid_json', // The message isn't JSON
+  'invalid_message', // Not an object with a string type
+  'unknown_type',
+  'invalid_field', // A field is missing, of the wrong type or out of range; see field
+  'unsupported_protocol', // join_session asked for a protocol version the server doesn't speak
+  'not_joined', // Sent before join_session
+  'unsupported_url',
+  'unavailable_channel', // Channel isn't part of the session's layout
+  'unauthorized', // join_session without the session's password, or with a wrong one
+  'rate_limited', // Too many wrong passwords from the address or for the session; see retryAfterMs
+  'forbidden', // The client's role doesn't allow the request
+  'processing_failed',
+  'audio_unavailable',
+  'session_deleted',
+  'internal_error',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export interface ProtocolError {
+  code: ErrorCode;
+  message: string;
+  field?: string; // Path to the offending field, e.g. "offsets[2].offsetMs"
+  request?: string; // Type of the message that caused it, when known
+  retryAfterMs?: number; // For rate_limited, how long to wait before trying again
+}
+
+// Schemas are plain data so they can be served to other clients as they are
+export type FieldSchema = (
+  | { type: 'string'; minLength?: number; maxLength?: number }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'array'; items: FieldSchema; maxItems?: number }
+  | { type: 'object'; fields: Record<string, FieldSchema> }
+) & { optional?: boolean; nullable?: boolean };
+
+type MessageSchemas<T extends { type: string }> = { [K in T['type']]: Record<string, FieldSchema> };
+
+const string = (minLength?: number, maxLength?: number): FieldSchema => ({ type: 'string', minLength, maxLength });
+const number = (min?: number, max?: number): FieldSchema => ({ type: 'number', min, max });
+const integer = (min?: number): FieldSchema => ({ type: 'number', min, integer: true });
+const boolean: FieldSchema = { type: 'boolean' };
+const oneOf = (values: readonly string[]): FieldSchema => ({ type: 'enum', values });
+const arrayOf = (items: FieldSchema, maxItems?: number): FieldSchema => ({ type: 'array', items, maxItems });
+const object = (fields: Record<string, FieldSchema>): FieldSchema => ({ type: 'object', fields });
+const optional = (schema: FieldSchema): FieldSchema => ({ ...schema, optional: true });
+const nullable = (schema: FieldSchema): FieldSchema => ({ ...schema, nullable: true });
+
+const channel = oneOf([...SPEAKER_CHANNELS, 'stereo']);
+const layout = oneOf(Object.keys(LAYOUTS));
+const version = integer(0);
+const role = oneOf(ROLES);
+const password = string(1, 128);
+const variants = arrayOf(object({
+  variant: oneOf(Object.keys(VARIANTS)),
+  mimeType: string(),
+  bitrate: nullable(number()),
+  manifestUrl: string(),
+}));
+// A client's Date.now(), which can't be before 1970 or (reasonably) after 2100
+const timestamp = number(0, Date.UTC(2100, 0, 1));
+const trim = object({ latencyMs: number(), volumeDb: number() });
+const audioSettings = object({
+  eq: arrayOf(object({ frequency: number(), gain: number(), q: number() }), 8),
+  crossover: object({ enabled: boolean, frequency: number(), subwooferClientId: nullable(string()) }),
+  width: number(),
+});
+
+export const CLIENT_MESSAGE_SCHEMAS: MessageSchemas<ClientMessage> = {
+  join_session: {
+    sessionId: string(1, 64),
+    protocolVersion: optional(integer(1)),
+    deviceToken: optional(string()),
+    resumeToken: optional(string()),
+    password: optional(password),
+    hostKey: optional(string(1, 64)),
+  },
+  submit_link: { url: string(1, 2048) },
+  enqueue_track: { url: string(1, 2048) },
+  remove_track: { itemId: string(1) },
+  move_track: { itemId: string(1), toIndex: integer(0) },
+  cancel_processing: {},
+  ready: {},
+  play_request: { version: optional(version) },
+  pause_request: { version: optional(version) },
+  seek_request: { targetTime: number(), version: optional(version) },
+  volume_request: { channel, volume: number(0, 100) },
+  set_layout: { layout },
+  set_normalization: { enabled: boolean },
+  set_ready_barrier: { enabled: boolean },
+  audio_settings: {
+    settings: object({
+      eq: optional(arrayOf(object({ frequency: number(), gain: number(), q: number() }), 8)),
+      crossover: optional(object({
+        enabled: optional(boolean),
+        frequency: optional(number()),
+        subwooferClientId: optional(nullable(string())),
+      })),
+      width: optional(number()),
+    }),
+  },
+  set_channel: { channel, clientId: optional(string(1)) },
+  swap_channels: { channelA: channel, channelB: channel },
+  set_device_trim: { clientId: optional(string(1)), latencyMs: optional(number()), volumeDb: optional(number()) },
+  start_calibration: {},
+  set_role: { clientId: string(1), role },
+  set_guest_role: { role: oneOf(ROLES.filter((r) => r !== 'host')) },
+  set_session_password: { password: nullable(password) },
+  calibration_result: {
+    calibrationId: string(1),
+    offsets: arrayOf(object({ clientId: string(1), offsetMs: nullable(number()) })),
+  },
+  ping: {
+    clientTimestamp: timestamp,
+    sample: optional(object({
+      clientSent: timestamp,
+      serverReceived: timestamp,
+      serverSent: timestamp,
+      clientReceived: timestamp,
+    })),
+  },
+  position_report: { position: number(), clientTimestamp: timestamp },
+};
+
+export const SERVER_MESSAGE_SCHEMAS: MessageSchemas<ServerMessage> = {
+  session_joined: {
+    protocolVersion: integer(1),
+    sessionId: string(),
+    clientId: string(),
+    channel,
+    layout,
+    normalize: boolean,
+    readyBarrier: boolean,
+    audioSettings,
+    trim,
+    playbackVersion: version,
+    resumeToken: string(),
+    resumed: boolean,
+    volume: number(0, 100),
+    role,
+    passwordProtected: boolean,
+    guestRole: role,
+    hostKey: optional(string()),
+  },
+  layout_update: { layout },
+  audio_ready: {
+    audioUrl: string(),
+    manifestUrl: string(),
+    variants,
+    duration: number(0),
+    title: string(),
+    loudness: nullable(object({ integrated: number(), truePeak: number() })),
+    gainDb: number(),
+    version,
+  },
+  preload_track: { variants },
+  track_gain: { gainDb: number() },
+  normalization_update: { normalize: boolean },
+  ready_barrier_update: { enabled: boolean },
+  waiting_for: { clients: arrayOf(object({ id: string(), channel })), timeoutMs: number(0) },
+  audio_settings_update: { settings: audioSettings },
+  audio_loading: { url: string() },
+  audio_progress: {
+    url: string(),
+    stage: oneOf(['queued', 'resolving', 'buffering', 'finishing'] satisfies ProcessingStage[]),
+    percent: number(0, 100),
+    bufferedSeconds: number(0),
+  },
+  processing_cancelled: {},
+  play: { startTime: number(), serverTimestamp: number(), clientTime: number(), version },
+  pause: { currentTime: number(), serverTimestamp: number(), version },
+  resync: {
+    playbackRate: number(0),
+    startTime: optional(number()),
+    serverTimestamp: optional(number()),
+    clientTime: optional(number()),
+    version,
+  },
+  seek: { targetTime: number(0), serverTimestamp: number(), clientTime: number(), version },
+  playback_conflict: {
+    request: oneOf(['play_request', 'pause_request']),
+    isPlaying: boolean,
+    currentTime: number(),
+    version,
+  },
+  pong: { clientTimestamp: number(), serverReceiveTimestamp: number(), serverTimestamp: number() },
+  client_list: {
+    clients: arrayOf(object({
+      id: string(),
+      channel,
+      ready: boolean,
+      volume: number(0, 100),
+      role,
+      lastSeenAt: number(),
+      quality: oneOf(['good', 'fair', 'poor']),
+      trim,
+      drift: object({ driftMs: nullable(number()), playbackRate: number(0), resyncs: integer(0) }),
+      clock: object({
+        offsetMs: number(),
+        rttMs: number(),
+        uncertaintyMs: nullable(number()),
+        confidence: number(0, 1),
+      }),
+    })),
+  },
+  volume_change: { volume: number(0, 100) },
+  role_change: { role, hostKey: optional(string()) },
+  access_update: { passwordProtected: boolean, guestRole: role },
+  device_trim: { trim },
+  calibration_chirp: { calibrationId: string(), clientTime: number() },
+  calibration_record: {
+    calibrationId: string(),
+    slots: arrayOf(object({ clientId: string(), clientTime: number() })),
+    slotMs: number(0),
+  },
+  calibration_complete: {
+    calibrationId: string(),
+    results: arrayOf(object({ clientId: string(), latencyMs: nullable(number()) })),
+  },
+  calibration_failed: { calibrationId: nullable(string()), message: string() },
+  queue_update: {
+    queue: arrayOf(object({
+      id: string(),
+      url: string(),
+      title: string(),
+      duration: number(0),
+      status: oneOf(['pending', 'processing', 'ready', 'failed']),
+    })),
+  },
+  error: {
+    code: oneOf(ERROR_CODES),
+    message: string(),
+    field: optional(string()),
+    request: optional(string()),
+    retryAfterMs: optional(number(0)),
+  },
+};
+
+// What's wrong with a message from a client, or null if it matches its schema.
+// Fields not in the schema are allowed, so newer clients can send extras.
+export function validateClientMessage(value: unknown): ProtocolError | null {
+  if (!isObject(value) || typeof value.type !== 'string') {
+    return { code: 'invalid_message', message: 'Messages must be objects with a string type', field: 'type' };
+  }
+  const request = value.type;
+  if (!Object.hasOwn(CLIENT_MESSAGE_SCHEMAS, request)) {
+    return { code: 'unknown_type', message: `Unknown message type: ${request}`, field: 'type', request };
+  }
+  const issue = checkFields(CLIENT_MESSAGE_SCHEMAS[request as ClientMessage['type']], value, '');
+  return issue && { code: 'invalid_field', message: issue.message, field: issue.field, request };
+}
+
+// Outgoing messages are checked too, so a server bug can't break the contract
+// other clients are built against
+export function validateServerMessage(message: ServerMessage): string | null {
+  const issue = checkFields(SERVER_MESSAGE_SCHEMAS[message.type], message, '');
+  return issue && `${message.type}: ${issue.message}`;
+}
+
+// The schemas as served to other clients
+export function describeProtocol() {
+  return {
+    version: PROTOCOL_VERSION,
+    errorCodes: ERROR_CODES,
+    client: CLIENT_MESSAGE_SCHEMAS,
+    server: SERVER_MESSAGE_SCHEMAS,
+  };
+}
+
+interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+function checkFields(
+  fields: Record<string, FieldSchema>,
+  value: object,
+  path: string
+): FieldIssue | null {
+  for (const [key, schema] of Object.entries(fields)) {
+    const issue = checkField(schema, (value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+    if (issue) return issue;
+  }
+  return null;
+}
+
+function checkField(schema: FieldSchema, value: unknown, field: string): FieldIssue | null {
+  if (value === undefined) {
+    return schema.optional ? null : { field, message: `Missing ${field}` };
+  }
+  if (value === null && schema.nullable) return null;
+
+  const invalid = { field, message: `Invalid ${field}: expected ${describe(schema)}` };
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return invalid;
+      if (value.length < (schema.minLength ?? 0) || value.length > (schema.maxLength ?? Infinity)) return invalid;
+      return null;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return invalid;
+      if (schema.integer && !Number.isInteger(value)) return invalid;
+      if (value < (schema.min ?? -Infinity) || value > (schema.max ?? Infinity)) return invalid;
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : invalid;
+    case 'enum':
+      return typeof value === 'string' && schema.values.includes(value) ? null : invalid;
+    case 'array': {
+      if (!Array.isArray(value) || value.length > (schema.maxItems ?? Infinity)) return invalid;
+      for (let i = 0; i < value.length; i++) {
+        const issue = checkField(schema.items, value[i], `${field}[${i}]`);
+        if (issue) return issue;
+      }
+      return null;
+    }
+    case 'object':
+      return isObject(value) ? checkFields(schema.fields, value, field) : invalid;
+  }
+}
+
+function describe(schema: FieldSchema): string {
+  let description: string;
+  switch (schema.type) {
+    case 'string':
+      description = schema.minLength ? 'a non-empty string' : 'a string';
+      if (schema.maxLength !== undefined) description += ` of at most ${schema.maxLength} characters`;
+      break;
+    case 'number':
+      description = schema.integer ? 'an integer' : 'a number';
+      if (schema.min !== undefined && schema.max !== undefined) {
+        description += ` from ${schema.min} to ${schema.max}`;
+      } else if (schema.min !== undefined) {
+        description += ` of at least ${schema.min}`;
+      } else if (schema.max !== undefined) {
+        description += ` of at most ${schema.max}`;
+      }
+      break;
+    case 'boolean':
+      description = 'true or false';
+      break;
+    case 'enum':
+      description = `one of ${schema.values.join(', ')}`;
+      break;
+    case 'array':
+      description = schema.maxItems !== undefined ? `an array of at most ${schema.maxItems} items` : 'an array';
+      break;
+    case 'object':
+      description = 'an object';
+      break;
+  }
+  return schema.nullable ? `${description} or null` : description;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}